@@ -0,0 +1,94 @@
+// The "Collect Diagnostics" report: everything a mentor needs to see when a
+// student's setup is broken, as one markdown document that can be pasted into
+// a chat, or as JSON.
+
+export interface DiagnosticsReport {
+    /** When the report was made, as an ISO date. */
+    generated: string,
+    system: {
+        os: string,
+        vscode: string,
+        extension: string,
+        pythonExtension?: string,
+        /** E.g. `wsl` or `ssh-remote`, if VS Code is connected to a remote. */
+        remote?: string,
+    },
+    rootPath: string,
+    /** The environment checks, as they were run for this report. */
+    checks: object,
+    /** The RobotPy settings in effect for the project. */
+    settings: object,
+    pythons: { executable: string, version: string, command: string }[],
+    /** Python candidates that did not work, and why. */
+    pythonErrors: { candidate: string, error: string }[],
+    /** `pip list` in the venv, or why it could not be run. */
+    pipList: string,
+    /** The `[tool.robotpy]` section of pyproject.toml as written, if there is one. */
+    robotpySection?: string,
+    /** The end of the RobotPy output log. */
+    recentLog: string,
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replaces the user's home folder with `~` wherever it appears in `text`,
+ * since it usually contains the student's name. On Windows this also catches
+ * it with forward slashes, and with its backslashes escaped as in JSON.
+ */
+export function redactHomePaths(text: string, home: string): string {
+    home = home.replace(/[\\/]+$/, "");
+    if (home === "") {
+        return text;
+    }
+    const variants = new Set([home, home.replace(/\\/g, "/"), home.replace(/\\/g, "\\\\")]);
+    const pattern = new RegExp(
+        // Not followed by more of a name, so that /home/al leaves /home/alex alone.
+        `(?:${[...variants].sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})(?![\\w.-])`,
+        process.platform === "win32" ? "gi" : "g",
+    );
+    return text.replace(pattern, "~");
+}
+
+/** Fences `text` as a markdown code block, with a fence longer than any backticks inside. */
+function codeBlock(text: string, language = ""): string {
+    const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), match => match[0].length));
+    const fence = "`".repeat(longest + 1);
+    return `${fence}${language}\n${text.replace(/\n+$/, "")}\n${fence}`;
+}
+
+export function formatDiagnosticsMarkdown(report: DiagnosticsReport): string {
+    const system = report.system;
+    const pythons = report.pythons.length > 0
+        ? report.pythons.map(p => `- Python ${p.version}: \`${p.executable}\` (\`${p.command}\`)`).join("\n")
+        : "None found.";
+    const pythonErrors = report.pythonErrors.length > 0
+        ? "\n\nCandidates that did not work:\n\n" + report.pythonErrors.map(p => `- \`${p.candidate}\`: ${p.error.split("\n")[0]}`).join("\n")
+        : "";
+
+    return [
+        "# RobotPy Diagnostics",
+        `Generated ${report.generated} for \`${report.rootPath}\`.`,
+        "## System",
+        [
+            `- OS: ${system.os}`,
+            `- VS Code: ${system.vscode}${system.remote ? ` (remote: ${system.remote})` : ""}`,
+            `- RobotPy extension: ${system.extension}`,
+            `- Python extension: ${system.pythonExtension ?? "not installed"}`,
+        ].join("\n"),
+        "## Environment checks",
+        codeBlock(JSON.stringify(report.checks, null, 2), "json"),
+        "## Settings",
+        codeBlock(JSON.stringify(report.settings, null, 2), "json"),
+        "## Python interpreters",
+        pythons + pythonErrors,
+        "## pip list",
+        codeBlock(report.pipList),
+        "## [tool.robotpy]",
+        report.robotpySection !== undefined ? codeBlock(report.robotpySection, "toml") : "No `[tool.robotpy]` section in pyproject.toml.",
+        "## Recent log",
+        codeBlock(report.recentLog),
+    ].join("\n\n") + "\n";
+}
@@ -1,42 +1,170 @@
 import assert from "assert";
 import { ChildProcessWithoutNullStreams, exec, execFile, spawn, SpawnOptions } from "child_process";
 import * as fs from "fs";
+import * as https from "https";
+import * as net from "net";
 import * as os from "os";
 import * as path from "path";
 import { promisify } from "util";
 import * as vscode from "vscode";
+import { DiagnosticsReport, formatDiagnosticsMarkdown, redactHomePaths } from "./diagnostics";
+import { listPythonExecutables, parsePyLauncherList } from "./interpreters";
+import { createLineEditor, LineEditor } from "./lineEditor";
+import { createPipProgressTracker, PipProgressTracker } from "./pipProgress";
+import { findFailureLine, findTestsInSource, isTestFileName, parseJUnitXml, PytestCaseResult } from "./pytest";
+import { findRobotPySection, getComponentsKey, getLocalRequirements, getRequirementName, parseRobotPyConfig, RobotPyProjectConfig, setRobotPyValue } from "./pyproject";
+import { findReachableAddress, getTeamRobotAddresses, ROBOT_SSH_PORT } from "./reachability";
+import { connectRioLog, RioLogLevel, RioLogMessage } from "./riolog";
+import { findRobotClasses } from "./robotClass";
+import { parsePythonErrors, ParsedError } from "./traceback";
+import { compareVersions, findLatestRelease } from "./versions";
 
 const execAsync = promisify(exec);
 
 let outputChannel: vscode.OutputChannel;
-let robotpyTerminalAndEmitter: [vscode.Terminal, vscode.EventEmitter<string>] | undefined;
-let currentProcess: { proc: ChildProcessWithoutNullStreams, cmdString: string, prettyName: string } | undefined;
+const robotpyTerminals = new Map<string, RobotPyTerminal>();
+const processSessions = new Set<ProcessSession>();
+let testController: vscode.TestController | undefined;
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+let statusBarItem: vscode.StatusBarItem | undefined;
+let robotConsoleTerminal: vscode.Terminal | undefined;
 
-const VENV_DIR = '.venv';
-const PYTHON_MIN_VERSION = [3, 12];
+/** The most recent environment checks for each RobotPy project, keyed by root path. */
+const projectChecks = new Map<string, EnvironmentChecks>();
+
+const DEFAULT_VENV_DIR = '.venv';
+const DEFAULT_PYTHON_MIN_VERSION: [number, number] = [3, 12];
+const DEFAULT_PYTHON_CANDIDATES = [["python.exe"], ["python3"], ["python"], ["py", "-3"], ["py"]];
 
 const TERMINAL_NAME = 'RobotPy';
 const OUTPUT_CHANNEL_NAME = 'RobotPy';
 const ROBOTPY_DOCS_URL = "https://docs.wpilib.org/en/stable/docs/zero-to-robot/step-2/python-setup.html";
+const UV_DOCS_URL = "https://docs.astral.sh/uv/getting-started/installation/";
 
+let extensionContext: vscode.ExtensionContext;
 let resolveExtensionInitialized: () => void;
 const extensionInitialized = new Promise<void>(res => { resolveExtensionInitialized = res; });
 
 export function activate(context: vscode.ExtensionContext) {
-    outputChannel = vscode.window.createOutputChannel(OUTPUT_CHANNEL_NAME);
+    extensionContext = context;
+    outputChannel = recordOutput(vscode.window.createOutputChannel(OUTPUT_CHANNEL_NAME));
+    diagnosticCollection = vscode.languages.createDiagnosticCollection("robotpy");
+    context.subscriptions.push(diagnosticCollection);
 
     // Register commands.
     context.subscriptions.push(
         vscode.commands.registerCommand('robotpy.init', () => robotpyCommands(["init"])),
-        vscode.commands.registerCommand('robotpy.sync', () => robotpyCommands(["project", "update-robotpy"], ["sync"])),
-        vscode.commands.registerCommand('robotpy.sim', () => robotpyCommands(["sim"])),
-        vscode.commands.registerCommand('robotpy.deploy', () => robotpyCommands(["deploy"])),
-        vscode.commands.registerCommand('robotpy.deploySkipTests', () => robotpyCommands(["deploy", "--skip-tests"])),
+        vscode.commands.registerCommand('robotpy.newProject', newProjectCommand),
+        vscode.commands.registerCommand('robotpy.sync', syncCommand),
+        vscode.commands.registerCommand('robotpy.updateRobotPy', updateRobotPyCommand),
+        vscode.commands.registerCommand('robotpy.manageLibraries', manageLibrariesCommand),
+        vscode.commands.registerCommand('robotpy.prepareOffline', prepareOfflineCommand),
+        vscode.commands.registerCommand('robotpy.sim', simCommand),
+        vscode.commands.registerCommand('robotpy.simWithProfile', simWithProfileCommand),
+        vscode.commands.registerCommand('robotpy.restartSim', restartSimCommand),
+        vscode.commands.registerCommand('robotpy.deploy', () => deployCommand(false)),
+        vscode.commands.registerCommand('robotpy.deploySkipTests', () => deployCommand(true)),
+        vscode.commands.registerCommand('robotpy.deployWithProfile', deployWithProfileCommand),
+        vscode.commands.registerCommand('robotpy.showDeployHistory', showDeployHistoryCommand),
+        vscode.commands.registerCommand('robotpy.showRobotConsole', showRobotConsoleCommand),
+        vscode.commands.registerCommand('robotpy.test', () => robotpyCommands(...ROBOTPY_TASKS.test.cmds)),
+        vscode.commands.registerCommand('robotpy.stop', stopCommand),
+        vscode.commands.registerCommand('robotpy.stopAll', () => stopSessions(() => true)),
+    );
+
+    // Register tasks, so that RobotPy commands can be bound to keys, chained
+    // with `dependsOn`, and used as a `preLaunchTask`.
+    context.subscriptions.push(
+        vscode.tasks.registerTaskProvider(ROBOTPY_TASK_TYPE, {
+            provideTasks: provideRobotPyTasks,
+            resolveTask: resolveRobotPyTask,
+        }),
+    );
+
+    // Show the project's pytest tests in the Testing sidebar.
+    registerTestController(context);
+
+    // Debug the simulator by attaching the Python extension's debugger.
+    context.subscriptions.push(
+        vscode.commands.registerCommand('robotpy.debugSim', debugSimulation),
+        vscode.debug.registerDebugConfigurationProvider(ROBOTPY_DEBUG_TYPE, {
+            provideDebugConfigurations: () => [defaultDebugConfiguration()],
+            resolveDebugConfiguration: resolveRobotPyDebugConfiguration,
+        }),
+        vscode.debug.onDidStartDebugSession(onDebugSessionStarted),
+        vscode.debug.onDidTerminateDebugSession(onDebugSessionTerminated),
+    );
+
+    // Show the environment of the active project in the status bar. Clicking
+    // it shows the full report.
+    statusBarItem = vscode.window.createStatusBarItem("robotpy.environment", vscode.StatusBarAlignment.Left);
+    statusBarItem.name = "RobotPy Environment";
+    context.subscriptions.push(
+        statusBarItem,
+        vscode.commands.registerCommand('robotpy.checkEnvironment', showEnvironmentReport),
+        vscode.commands.registerCommand('robotpy.collectDiagnostics', collectDiagnosticsCommand),
+        vscode.commands.registerCommand('robotpy.runTest', runTestCommand),
+        vscode.languages.registerCodeLensProvider({ language: "python", scheme: "file" }, { provideCodeLenses }),
+        vscode.commands.registerCommand('robotpy.selectBasePython', selectBasePythonCommand),
+        vscode.window.onDidChangeActiveTextEditor(() => updateStatusBar()),
+    );
+
+    // Show the environment, actions and dependencies in the RobotPy sidebar.
+    registerSidebar(context);
+
+    // Stop watching projects' files when the extension is deactivated.
+    context.subscriptions.push({ dispose: () => [...projectWatchers.keys()].forEach(unwatchProject) });
+
+    // Settings can change which Python and venv we use, so check again.
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(async e => {
+            await extensionInitialized;
+            for (const folder of vscode.workspace.workspaceFolders ?? []) {
+                if (ENVIRONMENT_SETTINGS.some(name => e.affectsConfiguration(`robotpy.${name}`, folder.uri))) {
+                    outputChannel.appendLine(`RobotPy settings changed; re-checking environment: ${folder.uri.fsPath}`);
+                    // The venv may have moved.
+                    watchProject(folder.uri.fsPath);
+                    await checkEnvironment(folder.uri.fsPath);
+                }
+            }
+        }),
+    );
+
+    // Folders added to a multi-root workspace get the same treatment as the
+    // folders that were open at startup.
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(async e => {
+            await extensionInitialized;
+            for (const folder of e.removed) {
+                projectChecks.delete(folder.uri.fsPath);
+                unwatchProject(folder.uri.fsPath);
+            }
+            updateStatusBar();
+            refreshSidebar();
+            for (const folder of e.added) {
+                await openProjectSafely(folder);
+            }
+            await discoverAllTests();
+        }),
     );
 
-    // TODO: Register sim as a task of some kind?
+    (async () => {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            await openProjectSafely(folder);
+        }
+    })().finally(resolveExtensionInitialized);
+}
 
-    onProjectOpen().finally(resolveExtensionInitialized);
+/**
+ * Like `onProjectOpen`, but logs failures instead of passing them on, so that
+ * a problem in one folder does not keep the others from being set up.
+ */
+async function openProjectSafely(folder: vscode.WorkspaceFolder) {
+    try {
+        await onProjectOpen(folder);
+    } catch (e) {
+        outputChannel.appendLine(`ERROR: Failed to open project ${folder.uri.fsPath}: ${e}`);
+    }
 }
 
 export function deactivate() {
@@ -49,8 +177,81 @@ function isWindows(): boolean {
     return os.platform() === 'win32';
 }
 
+interface RobotPySettings {
+    /** The venv folder, relative to the project root. */
+    venvDirectory: string,
+    pythonMinVersion: [number, number],
+    /** Commands to try, in order, to find the system Python. */
+    pythonCandidates: string[][],
+    syncOnOpen: "ask" | "always" | "never",
+    /** Replace an existing `python.defaultInterpreterPath` when creating the venv? */
+    overwriteInterpreterPath: boolean,
+    /** What creates the venv and installs RobotPy. "auto" uses uv if it is installed. */
+    environmentManager: "auto" | EnvironmentManager,
+    deployProfiles: DeployProfile[],
+    simProfiles: SimProfile[],
+    /** Check that the robot answers before deploying? */
+    checkRobotReachable: boolean,
+    /** Ask before deploying code with uncommitted changes? */
+    warnUncommittedDeploy: boolean,
+    /** Install only from the offline cache, and never update the project. */
+    offlineMode: boolean,
+    /** Where "Prepare for Offline" puts wheels. Empty for the extension's own storage. */
+    offlineCacheDirectory: string,
+    /** Show Simulate/Deploy/Test lenses above the robot class and tests? */
+    codeLens: boolean,
+}
+
+/**
+ * Reads the `robotpy.*` settings that apply to the given project. All of them
+ * can be set per workspace folder.
+ */
+function getSettings(rootPath?: string): RobotPySettings {
+    const config = vscode.workspace.getConfiguration("robotpy", rootPath ? vscode.Uri.file(rootPath) : undefined);
+
+    let pythonMinVersion = DEFAULT_PYTHON_MIN_VERSION;
+    const minVersionStr = config.get<string>("pythonMinVersion", DEFAULT_PYTHON_MIN_VERSION.join("."));
+    const minVersionMatch = minVersionStr.match(/^\s*(\d+)\.(\d+)\s*$/);
+    if (minVersionMatch) {
+        pythonMinVersion = [parseInt(minVersionMatch[1], 10), parseInt(minVersionMatch[2], 10)];
+    } else {
+        outputChannel.appendLine(`Ignoring invalid robotpy.pythonMinVersion setting: ${minVersionStr}`);
+    }
+
+    // Candidates may be written as a single command string or as an array of
+    // the command and its arguments. A string is taken whole, since paths like
+    // `C:\Program Files\Python312\python.exe` contain spaces.
+    const rawCandidates = config.get<(string | string[])[]>("pythonCandidates", []);
+    const pythonCandidates = rawCandidates
+        .map(c => typeof c === "string" ? [c.trim()] : c)
+        .filter(c => c.length > 0 && c[0] !== "");
+
+    return {
+        venvDirectory: config.get<string>("venvDirectory", DEFAULT_VENV_DIR) || DEFAULT_VENV_DIR,
+        pythonMinVersion,
+        pythonCandidates: pythonCandidates.length > 0 ? pythonCandidates : DEFAULT_PYTHON_CANDIDATES,
+        syncOnOpen: config.get<"ask" | "always" | "never">("syncOnOpen", "ask"),
+        overwriteInterpreterPath: config.get<boolean>("overwriteInterpreterPath", true),
+        environmentManager: config.get<"auto" | EnvironmentManager>("environmentManager", "auto"),
+        deployProfiles: config.get<DeployProfile[]>("deployProfiles", []).filter(p => p && typeof p.name === "string"),
+        simProfiles: config.get<SimProfile[]>("simProfiles", []).filter(p => p && typeof p.name === "string"),
+        checkRobotReachable: config.get<boolean>("checkRobotReachable", true),
+        warnUncommittedDeploy: config.get<boolean>("warnUncommittedDeploy", false),
+        offlineMode: config.get<boolean>("offlineMode", false),
+        offlineCacheDirectory: config.get<string>("offlineCacheDirectory", ""),
+        codeLens: config.get<boolean>("codeLens", true),
+    };
+}
+
+/** The settings that change what `checkEnvironment` finds. */
+const ENVIRONMENT_SETTINGS: (keyof RobotPySettings)[] = ["venvDirectory", "pythonMinVersion", "pythonCandidates", "environmentManager"];
+
+function isPythonNewEnough(version: [number, number], rootPath: string): boolean {
+    return compareVersions(version.join("."), getSettings(rootPath).pythonMinVersion.join(".")) >= 0;
+}
+
 function getVenvPath(rootPath: string): string {
-    return path.join(rootPath, VENV_DIR);
+    return path.resolve(rootPath, getSettings(rootPath).venvDirectory);
 }
 
 function getVenvPythonPath(rootPath: string): string {
@@ -69,45 +270,192 @@ interface PythonCommand {
     /** The command to run to invoke Python. */
     cmd: string,
     args: string[],
+    /**
+     * The interpreter's own path (`sys.executable`), with any links resolved,
+     * except in a venv, where the link is what makes it the venv's Python.
+     */
+    executable: string,
     /** The Python major/minor version numbers. */
     version: [number, number],
     /** The Python major.minor version as a string. */
     versionStr: string,
+    /** The full version, e.g. `3.12.1`. */
+    fullVersionStr: string,
 }
 
-async function findPythonCommand(venvPath?: string): Promise<PythonCommand | null> {
-    let candidates = [["python.exe"], ["python3"], ["python"], ["py", "-3"], ["py"]];
+/** Why each Python candidate that did not work failed, for the diagnostics report. */
+const pythonProbeErrors = new Map<string, string>();
+
+/** Runs a Python command to find out whether it works, and which Python it is. */
+async function probePython(candidate: readonly string[], resolveLinks = true): Promise<PythonCommand | null> {
+    const executable = candidate[0];
+    const args = candidate.slice(1);
+    try {
+        const { stdout } = await execFancy(executable, [
+            ...args, "-c", "import sys; print(sys.executable); print('%d.%d.%d' % sys.version_info[:3])",
+        ], { silent: true });
+        const [exePath, fullVersion] = stdout.trim().split(/\r?\n/).map(l => l.trim());
+        const match = fullVersion?.match(/^(\d+)\.(\d+)\.\d+$/);
+        if (!match) {
+            outputChannel.appendLine(`Python candidate ${candidate.join(" ")} printed something unexpected: ${stdout}`);
+            pythonProbeErrors.set(candidate.join(" "), `Printed something unexpected: ${stdout.trim()}`);
+            return null;
+        }
+
+        let resolved = exePath || executable;
+        if (resolveLinks) {
+            try {
+                resolved = fs.realpathSync(resolved);
+            } catch (e) {
+                // Keep the path as printed.
+            }
+        }
+        const major = parseInt(match[1], 10);
+        const minor = parseInt(match[2], 10);
+        pythonProbeErrors.delete(candidate.join(" "));
+        return {
+            cmd: executable,
+            args: [...args],
+            executable: resolved,
+            version: [major, minor],
+            versionStr: `${major}.${minor}`,
+            fullVersionStr: fullVersion,
+        };
+    } catch (e) {
+        outputChannel.appendLine(`Python candidate ${candidate.join(" ")} did not work: ${e}`);
+        pythonProbeErrors.set(candidate.join(" "), String(e));
+        return null;
+    }
+}
+
+/** Returns the first of the candidates that works. */
+async function findPythonCommand(candidates: string[][], venvPath?: string): Promise<PythonCommand | null> {
     if (venvPath) {
+        // Only the interpreters that are there, so that a venv that does not
+        // exist yet does not fill the diagnostics with "not found" errors.
         candidates = [
             ...candidates.map(c => [path.join(venvPath, "bin", c[0]), ...c.slice(1)]),
             ...candidates.map(c => [path.join(venvPath, "Scripts", c[0]), ...c.slice(1)]),
-        ];
+        ].filter(c => fs.existsSync(c[0]));
     }
     for (const candidate of candidates) {
-        try {
-            const executable = candidate[0];
-            const args = candidate.slice(1);
+        const python = await probePython(candidate, !venvPath);
+        if (python) {
+            return python;
+        }
+    }
+    return null;
+}
 
-            const { stdout, stderr } = await execFancy(executable, [...args, "--version"], { silent: true });
-            const out = stdout || stderr; // python may print version to stderr, says my LLM
+/** Interpreters found by `discoverPythons`, keyed by the configured candidates. */
+const discoveredPythons = new Map<string, Promise<PythonCommand[]>>();
+
+/**
+ * Finds every Python interpreter on the system: those in the usual places
+ * (see `listPythonExecutables`), those the Windows `py` launcher knows about,
+ * and the configured candidates. Each interpreter is listed once, newest
+ * first. This takes a while, so the result is kept unless `refresh` is set.
+ */
+function discoverPythons(rootPath: string, refresh = false): Promise<PythonCommand[]> {
+    const configured = getSettings(rootPath).pythonCandidates;
+    const key = JSON.stringify(configured);
+    const existing = discoveredPythons.get(key);
+    if (existing && !refresh) {
+        return existing;
+    }
 
-            const match = out.match(/Python\s+(\d+)\.(\d+)/i);
-            if (!match) continue;
+    const discovery = (async () => {
+        outputChannel.appendLine("Looking for Python interpreters...");
+        // Only report failures of candidates that are still around.
+        pythonProbeErrors.clear();
+        const candidates: string[][] = listPythonExecutables().map(p => [p]);
+        if (isWindows()) {
+            try {
+                const { stdout } = await execFancy("py", ["-0p"], { silent: true });
+                candidates.push(...parsePyLauncherList(stdout).map(p => [p]));
+            } catch (e) {
+                outputChannel.appendLine(`Expected (?) error when listing interpreters with the py launcher: ${e}`);
+            }
+        }
+        candidates.push(...configured);
 
-            const major = parseInt(match[1], 10);
-            const minor = parseInt(match[2], 10);
+        const found: PythonCommand[] = [];
+        const seen = new Set<string>();
+        for (const candidate of candidates) {
+            const python = await probePython(candidate);
+            const seenKey = python && (isWindows() ? python.executable.toLowerCase() : python.executable);
+            if (python && seenKey && !seen.has(seenKey)) {
+                seen.add(seenKey);
+                found.push(python);
+            }
+        }
+        // Sorting is stable, so among equal versions the first found wins.
+        found.sort((a, b) => compareVersions(b.fullVersionStr, a.fullVersionStr));
+        outputChannel.appendLine(`Found Python interpreters: ${found.map(p => `${p.fullVersionStr} (${p.executable})`).join(", ") || "none"}`);
+        return found;
+    })();
+    discoveredPythons.set(key, discovery);
+    return discovery;
+}
 
-            return {
-                cmd: executable,
-                args: args,
-                version: [major, minor],
-                versionStr: `${major}.${minor}`,
-            };
-        } catch (e) {
-            outputChannel.appendLine(`Python candidate ${candidate} did not work: ${e}`);
+const BASE_PYTHON_KEY = "robotpy.basePython";
+
+/** The interpreter the user chose with "Select Base Python", if any. */
+function getSelectedBasePython(rootPath: string): string | undefined {
+    return extensionContext.workspaceState.get<Record<string, string>>(BASE_PYTHON_KEY, {})[rootPath];
+}
+
+async function setSelectedBasePython(rootPath: string, executable: string | undefined) {
+    const selected = { ...extensionContext.workspaceState.get<Record<string, string>>(BASE_PYTHON_KEY, {}) };
+    if (executable !== undefined) {
+        selected[rootPath] = executable;
+    } else {
+        delete selected[rootPath];
+    }
+    await extensionContext.workspaceState.update(BASE_PYTHON_KEY, selected);
+}
+
+/**
+ * Picks the Python to create the venv with: the one the user selected, or
+ * else the newest one that is new enough. If none is new enough, this is the
+ * newest one there is, so that the checks can say it is too old.
+ */
+async function findBasePython(rootPath: string): Promise<PythonCommand | null> {
+    const selected = getSelectedBasePython(rootPath);
+    if (selected) {
+        const python = await probePython([selected]);
+        if (python) {
+            return python;
         }
+        outputChannel.appendLine(`The selected base Python no longer works, so looking for another: ${selected}`);
     }
 
+    const all = await discoverPythons(rootPath);
+    return all.find(p => isPythonNewEnough(p.version, rootPath)) ?? all[0] ?? null;
+}
+
+type EnvironmentManager = "uv" | "venv";
+
+/**
+ * Finds the uv executable. VS Code started from a desktop launcher often does
+ * not have uv's install location on its PATH, so look there too.
+ */
+async function findUvCommand(): Promise<string | null> {
+    const exe = isWindows() ? "uv.exe" : "uv";
+    const candidates = [
+        "uv",
+        path.join(os.homedir(), ".local", "bin", exe),
+        path.join(os.homedir(), ".cargo", "bin", exe),
+    ];
+    for (const candidate of candidates) {
+        try {
+            const { stdout } = await execFancy(candidate, ["--version"], { silent: true });
+            outputChannel.appendLine(`Found ${stdout.trim()} (${candidate})`);
+            return candidate;
+        } catch (e) {
+            outputChannel.appendLine(`uv candidate ${candidate} did not work: ${e}`);
+        }
+    }
     return null;
 }
 
@@ -123,6 +471,16 @@ interface EnvironmentChecks {
     hasSystemPythonVenvModule: boolean,
     systemPythonCommand: PythonCommand | null,
 
+    /** Whether the venv is created with uv or with the system Python's venv module. */
+    environmentManager: EnvironmentManager,
+    /** The uv executable, if we looked for it and found it. */
+    uvCommand: string | null,
+    /**
+     * Can we create the venv? With uv this does not even need a system Python,
+     * since uv can download one.
+     */
+    canCreateVenv: boolean,
+
     /** Have we created the venv? */
     hasVenvFolder: boolean,
     /** Does the venv contain a recent enough version of Python? */
@@ -130,6 +488,8 @@ interface EnvironmentChecks {
     /** Does the venv contain a working version of RobotPy? */
     isVenvReady: boolean,
     venvPythonCommand: PythonCommand | null,
+    /** The version of RobotPy installed in the venv, if any. */
+    robotpyVersion: string | null,
 
     /** On Windows, does Powershell allow us to execute scripts? (Thank you Microsoft.) */
     winExecutionPolicyOk: boolean,
@@ -144,10 +504,15 @@ async function checkEnvironment(rootPath: string): Promise<[EnvironmentChecks, b
         hasSystemPythonVenvModule: false, // Does the system python have the "venv" module?
         systemPythonCommand: null,
 
+        environmentManager: "venv", // Are we using uv or the venv module?
+        uvCommand: null, // Where is uv, if we use it?
+        canCreateVenv: false, // Can we create the venv with what we have?
+
         hasVenvFolder: false, // Have we created the venv?
         isVenvPythonNewEnough: false, // Does the venv contain a recent enough version of Python?
         isVenvReady: false, // Does the venv contain a working version of RobotPy?
         venvPythonCommand: null,
+        robotpyVersion: null,
 
         winExecutionPolicyOk: isWindows() ? false : true, // On Windows, does Powershell allow us to execute scripts? (Thank you Microsoft.)
     };
@@ -155,25 +520,17 @@ async function checkEnvironment(rootPath: string): Promise<[EnvironmentChecks, b
 
     // Check if there is a RobotPy project
     outputChannel.appendLine("Checking for a RobotPy project...");
-    try {
-        const fileContent = await vscode.workspace.fs.readFile(vscode.Uri.file(path.join(rootPath, 'pyproject.toml')));
-        const content = Buffer.from(fileContent).toString('utf8');
-        if (content.includes('[tool.robotpy]')) {
-            result.hasRobotPyProjectFile = true;
-        }
-    } catch (e) {
-        outputChannel.appendLine(`Expected (?) error when checking for pyproject.toml: ${e}`);
-    }
+    result.hasRobotPyProjectFile = await isRobotPyProject(rootPath);
 
     // Check status of system Python
     outputChannel.appendLine("Checking system Python...");
-    const systemPython = await findPythonCommand();
+    const systemPython = await findBasePython(rootPath);
     if (systemPython) {
         result.hasSystemPython = true;
         result.systemPythonCommand = systemPython;
-        outputChannel.appendLine(`System Python found with version ${systemPython.versionStr}`);
+        outputChannel.appendLine(`System Python found with version ${systemPython.fullVersionStr} (${systemPython.executable})`);
 
-        if (systemPython.version[0] >= PYTHON_MIN_VERSION[0] && systemPython.version[1] >= PYTHON_MIN_VERSION[1]) {
+        if (isPythonNewEnough(systemPython.version, rootPath)) {
             result.isSystemPythonNewEnough = true;
             outputChannel.appendLine("System Python is new enough");
 
@@ -192,27 +549,41 @@ async function checkEnvironment(rootPath: string): Promise<[EnvironmentChecks, b
         }
     }
 
+    // Check which environment manager to use
+    const environmentManager = getSettings(rootPath).environmentManager;
+    if (environmentManager !== "venv") {
+        outputChannel.appendLine("Checking for uv...");
+        result.uvCommand = await findUvCommand();
+    }
+    result.environmentManager = environmentManager === "uv" || (environmentManager === "auto" && result.uvCommand) ? "uv" : "venv";
+    result.canCreateVenv = result.environmentManager === "uv" ? result.uvCommand !== null : result.hasSystemPythonVenvModule;
+    outputChannel.appendLine(`Using ${result.environmentManager} to manage the virtual environment`);
+
     // Check status of venv
     if (fs.existsSync(getVenvPath(rootPath))) {
         result.hasVenvFolder = true;
         outputChannel.appendLine(`venv found at ${getVenvPath(rootPath)}`);
 
-        const venvPython = await findPythonCommand(getVenvPath(rootPath));
+        const venvPython = await findPythonCommand(DEFAULT_PYTHON_CANDIDATES, getVenvPath(rootPath));
         if (venvPython) {
             result.venvPythonCommand = venvPython
             outputChannel.appendLine(`venv Python found with version ${venvPython.versionStr}`);
 
-            if (venvPython.version[0] >= PYTHON_MIN_VERSION[0] && venvPython.version[1] >= PYTHON_MIN_VERSION[1]) {
+            if (isPythonNewEnough(venvPython.version, rootPath)) {
                 result.isVenvPythonNewEnough = true;
                 outputChannel.appendLine("venv Python is new enough");
 
                 try {
-                    await execFancy(venvPython.cmd, [...venvPython.args, "-c", "import robotpy"], {
+                    const { stdout } = await execFancy(venvPython.cmd, [
+                        ...venvPython.args, "-c",
+                        "import robotpy; from importlib.metadata import version; print(version('robotpy'))",
+                    ], {
                         cwd: rootPath,
                         silent: true,
                     });
                     result.isVenvReady = true;
-                    outputChannel.appendLine("venv Python has robotpy and is therefore good to go");
+                    result.robotpyVersion = stdout.trim() || null;
+                    outputChannel.appendLine(`venv Python has robotpy ${result.robotpyVersion} and is therefore good to go`);
                 } catch (e) {
                     outputChannel.appendLine(`Expected (?) error when checking for robotpy in venv: ${e}`);
                 }
@@ -248,138 +619,275 @@ async function checkEnvironment(rootPath: string): Promise<[EnvironmentChecks, b
     if (result.isVenvPythonNewEnough) {
         assert.ok(result.hasVenvFolder);
     }
+    if (result.canCreateVenv && result.environmentManager === "venv") {
+        assert.ok(result.hasSystemPythonVenvModule);
+    }
     if (result.isVenvReady) {
         assert.ok(result.hasVenvFolder && result.isVenvPythonNewEnough);
     }
 
+    if (result.hasRobotPyProjectFile) {
+        projectChecks.set(rootPath, result);
+    } else {
+        projectChecks.delete(rootPath);
+    }
+    updateStatusBar();
+    refreshSidebar();
+
     return [result, didError] as const;
 }
 
-async function promptUserToKillCurrentProcess() {
-    if (!currentProcess) {
+/**
+ * The kinds of processes we run. Each kind gets its own terminal, and the
+ * rules in `PROCESS_CONFLICTS` decide which kinds may run at the same time.
+ */
+type ProcessKind = "init" | "sync" | "sim" | "deploy" | "test" | "setup" | "other";
+
+const PROCESS_KIND_LABELS: Record<ProcessKind, string> = {
+    init: "Init",
+    sync: "Sync",
+    sim: "Sim",
+    deploy: "Deploy",
+    test: "Test",
+    setup: "Setup",
+    other: "Command",
+};
+
+/**
+ * Which kinds of process may not run at the same time in the same project.
+ * The rules are symmetric, so each pair only needs to be listed once. Sync
+ * and setup change what is installed in the venv, so they cannot run
+ * alongside anything that uses it.
+ */
+const PROCESS_CONFLICTS: Record<ProcessKind, ProcessKind[]> = {
+    init: ["init"],
+    sync: ["sync", "sim", "deploy", "test", "init"],
+    sim: ["sim"],
+    deploy: ["deploy"],
+    test: ["test"],
+    setup: ["setup", "sync", "sim", "deploy", "test", "init"],
+    other: ["other"],
+};
+
+interface RobotPyTerminal {
+    terminal: vscode.Terminal,
+    writeEmitter: vscode.EventEmitter<string>,
+    lineEditor: LineEditor,
+    /** The session currently attached to this terminal, if any. */
+    session?: ProcessSession,
+}
+
+interface ProcessSession {
+    kind: ProcessKind,
+    rootPath: string,
+    proc: ChildProcessWithoutNullStreams,
+    cmdString: string,
+    prettyName: string,
+    /** The terminal the process runs in, unless it is run by a task. */
+    terminal?: RobotPyTerminal,
+}
+
+function processKindsConflict(a: ProcessKind, b: ProcessKind): boolean {
+    return PROCESS_CONFLICTS[a].includes(b) || PROCESS_CONFLICTS[b].includes(a);
+}
+
+function findConflictingSessions(kind: ProcessKind, rootPath: string): ProcessSession[] {
+    return [...processSessions].filter(s => s.rootPath === rootPath && processKindsConflict(s.kind, kind));
+}
+
+async function promptUserToStopSessions(sessions: ProcessSession[]): Promise<boolean> {
+    if (sessions.length === 0) {
         outputChannel.appendLine("WARNING: No process was running when the user was prompted to kill it. Assuming they did want to kill it, in hopes of continuing with whatever logic was running.");
         return true;
     }
 
     return await new Promise<boolean>(res => {
-        let desc = "A command";
-        if (currentProcess) {
-            desc = `The command "${currentProcess?.prettyName ?? currentProcess?.cmdString}"`;
-        }
-        vscode.window.showWarningMessage(`${desc} is currently running. Would you like to cancel it?`, "Yes", "No")
+        const desc = sessions.length === 1
+            ? `The command "${sessions[0].prettyName}" is`
+            : `The commands ${sessions.map(s => `"${s.prettyName}"`).join(", ")} are`;
+        vscode.window.showWarningMessage(`${desc} currently running. Would you like to cancel ${sessions.length === 1 ? "it" : "them"}?`, "Yes", "No")
             .then(action => res(action === "Yes"));
     });
 }
 
-function killCurrentProcess() {
-    currentProcess?.proc.kill();
-    currentProcess = undefined;
+/**
+ * Makes sure nothing that conflicts with a new process of the given kind is
+ * running, asking the user before stopping anything. Resolves to false if the
+ * user wants to keep the running processes.
+ */
+async function stopConflictingSessions(kind: ProcessKind, rootPath: string, reason: string): Promise<boolean> {
+    const conflicting = findConflictingSessions(kind, rootPath);
+    if (conflicting.length === 0) {
+        return true;
+    }
+    if (!await promptUserToStopSessions(conflicting)) {
+        return false;
+    }
+    await Promise.all(conflicting.map(session => {
+        outputChannel.appendLine(`Process "${session.cmdString}" killed in order to run: ${reason}`);
+        return stopSession(session);
+    }));
+    return true;
 }
 
+/** How long a stopped process gets to exit before it is killed outright. */
+const STOP_TIMEOUT_MS = 5000;
+
 /**
- * Gets a PTY and write event emitter for RobotPy commands. We do this in order
- * to present a terminal-like experience for students while still running
- * processes without a shell, since this is a nightmare of quoting and
- * escaping. The PTY has some simple line editing capabilities in order to
- * handle small prompts that appear throughout the course of RobotPy commands.
+ * Stops a process, resolving once it has exited, so that whatever runs next
+ * does not find the venv or the simulator's ports still in use.
+ */
+async function stopSession(session: ProcessSession) {
+    const proc = session.proc;
+    const exited = proc.pid === undefined || proc.exitCode !== null || proc.signalCode !== null
+        ? Promise.resolve()
+        : new Promise<void>(res => proc.once("close", () => res()));
+    proc.kill();
+    processSessions.delete(session);
+    if (session.terminal?.session === session) {
+        session.terminal.session = undefined;
+    }
+    refreshSidebar();
+
+    const timer = setTimeout(() => {
+        outputChannel.appendLine(`Process did not exit after ${STOP_TIMEOUT_MS / 1000} seconds; killing it: ${session.cmdString}`);
+        proc.kill("SIGKILL");
+    }, STOP_TIMEOUT_MS);
+    await exited;
+    clearTimeout(timer);
+}
+
+async function stopSessions(predicate: (session: ProcessSession) => boolean) {
+    await Promise.all([...processSessions].filter(predicate).map(stopSession));
+}
+
+/**
+ * Stops a running RobotPy process. If a kind is given (e.g. from a
+ * keybinding), all processes of that kind are stopped; otherwise the user
+ * picks one when there are several.
  */
-function getRobotPyTerminal(): [vscode.Terminal, vscode.EventEmitter<string>] {
-    if (robotpyTerminalAndEmitter && vscode.window.terminals.includes(robotpyTerminalAndEmitter[0])) {
-        return robotpyTerminalAndEmitter;
+async function stopCommand(kind?: ProcessKind) {
+    const sessions = [...processSessions].filter(s => !kind || s.kind === kind);
+    if (sessions.length === 0) {
+        vscode.window.showInformationMessage("No RobotPy commands are running.");
+        return;
+    }
+    if (kind || sessions.length === 1) {
+        await Promise.all(sessions.map(stopSession));
+        return;
     }
 
-    let inputBuffer = "";
+    const picked = await vscode.window.showQuickPick(
+        sessions.map(s => ({ label: s.prettyName, description: path.basename(s.rootPath), session: s })),
+        { placeHolder: "Select the RobotPy command to stop" },
+    );
+    if (picked) {
+        await stopSession(picked.session);
+    }
+}
+
+function getTerminalName(kind: ProcessKind, rootPath: string): string {
+    const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    const folder = isMultiRoot ? ` (${path.basename(rootPath)})` : "";
+    return `${TERMINAL_NAME}: ${PROCESS_KIND_LABELS[kind]}${folder}`;
+}
+
+/**
+ * Gets a PTY-backed terminal for RobotPy commands. We do this in order to
+ * present a terminal-like experience for students while still running
+ * processes without a shell, since this is a nightmare of quoting and
+ * escaping. The PTY has a line editor (cursor movement, history, hidden
+ * password input) in order to handle the prompts that appear throughout the
+ * course of RobotPy commands.
+ *
+ * Each kind of process in each project gets its own terminal, which is reused
+ * for later processes of the same kind.
+ */
+function getRobotPyTerminal(name: string): RobotPyTerminal {
+    const existing = robotpyTerminals.get(name);
+    if (existing && vscode.window.terminals.includes(existing.terminal)) {
+        return existing;
+    }
 
     const writeEmitter = new vscode.EventEmitter<string>();
+    const lineEditor = createLineEditor({
+        echo: data => writeEmitter.fire(data),
+        send: text => result.session?.proc.stdin.write(text),
+        onInterrupt: () => {
+            if (result.session) {
+                stopSession(result.session);
+            }
+        },
+        onEof: () => result.session?.proc.stdin.end(),
+    });
     const pty: vscode.Pseudoterminal = {
         onDidWrite: writeEmitter.event,
         open() {},
         close() {
-            killCurrentProcess();
+            if (result.session) {
+                stopSession(result.session);
+            }
+            robotpyTerminals.delete(name);
         },
         handleInput(data) {
             if (data.trim().match(/(Scripts|bin)[/\\]activate(\.(bat|ps1))?$/)) {
                 // The Python extension tries to activate a venv in our pty.
                 // This is obnoxious and we do not want it.
-                inputBuffer = "";
                 return;
             }
-
-            if (data === "\x03") {
-                // ctrl-c
-                writeEmitter.fire("^C\r\n");
-                killCurrentProcess();
-                inputBuffer = "";
-            } else if (data === "\r" || data === "\n") {
-                // enter
-                writeEmitter.fire("\r\n");
-                currentProcess?.proc.stdin.write(inputBuffer + "\n");
-                inputBuffer = "";
-            } else if (data === "\x08" || data === "\x7f") {
-                // backspace
-                if (inputBuffer.length > 0) {
-                    inputBuffer = inputBuffer.slice(0, -1);
-                    writeEmitter.fire("\x08 \x08"); // back, space, back
-                }
-            } else {
-                inputBuffer += data;
-                writeEmitter.fire(data);
-            }
+            lineEditor.handleInput(data);
         },
     };
 
-    robotpyTerminalAndEmitter = [
-        vscode.window.createTerminal({
-            name: TERMINAL_NAME,
-            pty,
-        }),
+    const result: RobotPyTerminal = {
+        terminal: vscode.window.createTerminal({ name, pty }),
         writeEmitter,
-    ];
-    return robotpyTerminalAndEmitter;
+        lineEditor,
+    };
+    robotpyTerminals.set(name, result);
+    return result;
 }
 
 interface ExecFancyOptions extends Omit<SpawnOptions, "stdio"> {
     showTerminal?: boolean,
+    /**
+     * Run quietly in the background: no terminal, and no tracking as a
+     * session, so that it never conflicts with anything.
+     */
     silent?: boolean,
     prettyName?: string,
+    /** What kind of process this is, for terminals and conflicts. Defaults to "other". */
+    kind?: ProcessKind,
+    /** Called with each chunk of stdout and stderr as it arrives. */
+    onData?: (data: string, stream: "stdout" | "stderr") => void,
 }
 
 async function execFancy(cmd: string, args: readonly string[], opts: ExecFancyOptions = {}): Promise<{
     stdout: string,
     stderr: string,
 }> {
-    // Get the terminal in which we will present this command
-    const [terminal, writeEmitter] = getRobotPyTerminal();
-    function maybeWriteToTerminal(str: string) {
-        if (!opts.silent) {
-            writeEmitter.fire(str.replace(/(?<!\r)\n/g, "\r\n"));
-        }
-    }
-
     const cmdString = `${cmd} ${args ? args.join(" ") : ""}`.trim();
     const prettyName = opts.prettyName ?? cmdString;
+    const kind = opts.kind ?? "other";
+    const rootPath = opts.cwd ? String(opts.cwd) : "";
 
-    // Possibly kill the current process
-    if (currentProcess) {
-        const nope = new Error(`Could not run command because another process (${currentProcess.prettyName ?? currentProcess.cmdString}) was running: ${cmdString}`);
-        if (opts.silent) {
-            throw nope;
-        }
+    // Possibly kill conflicting processes
+    if (!opts.silent && !await stopConflictingSessions(kind, rootPath, cmdString)) {
+        const running = findConflictingSessions(kind, rootPath).map(s => s.prettyName).join(", ");
+        throw new Error(`Could not run command because another process (${running}) was running: ${cmdString}`);
+    }
 
-        const killCurrent = await promptUserToKillCurrentProcess();
-        if (killCurrent) {
-            outputChannel.appendLine(`Process "${currentProcess.cmdString}" killed in order to run: ${cmdString}`);
-            killCurrentProcess();
-            maybeWriteToTerminal("\r\nProcess killed\r\n");
-        } else {
-            throw nope;
-        }
+    // Get the terminal in which we will present this command
+    const terminal = opts.silent ? undefined : getRobotPyTerminal(getTerminalName(kind, rootPath));
+    function maybeWriteToTerminal(str: string) {
+        terminal?.writeEmitter.fire(str.replace(/(?<!\r)\n/g, "\r\n"));
+        terminal?.lineEditor.onOutput(str);
     }
 
     outputChannel.appendLine(`Running: ${cmdString}`);
     maybeWriteToTerminal(`$ ${cmdString}\r\n`);
     if (opts.showTerminal) {
-        terminal.show();
+        terminal?.terminal.show();
     }
 
     let stdout = "", stderr = "";
@@ -393,22 +901,41 @@ async function execFancy(cmd: string, args: readonly string[], opts: ExecFancyOp
                 ...opts.env,
             }
         });
-        currentProcess = { proc, cmdString, prettyName };
+        let session: ProcessSession | undefined;
+        if (terminal) {
+            session = { kind, rootPath, proc, cmdString, prettyName, terminal };
+            processSessions.add(session);
+            terminal.session = session;
+            terminal.lineEditor.reset();
+            refreshSidebar();
+        }
+        function endSession() {
+            if (session) {
+                processSessions.delete(session);
+                if (terminal?.session === session) {
+                    terminal.session = undefined;
+                }
+                refreshSidebar();
+            }
+        }
+
         proc.stdout.on("data", data => {
             stdout += data.toString();
             outputChannel.append(data.toString());
             maybeWriteToTerminal(data.toString());
+            opts.onData?.(data.toString(), "stdout");
         });
         proc.stderr.on("data", data => {
             stderr += data.toString();
             outputChannel.append(data.toString());
             maybeWriteToTerminal(data.toString());
+            opts.onData?.(data.toString(), "stderr");
         });
         proc.on("close", (code, signal) => {
             const msg = code === null ? `Process was killed with signal ${signal}` : `Process exited with code ${code}`;
             outputChannel.appendLine(`${msg}: ${cmdString}`);
             maybeWriteToTerminal(`\r\n${msg}\r\n`);
-            currentProcess = undefined;
+            endSession();
             if (code != 0) {
                 rej(new Error(`${msg}: ${prettyName}`));
             } else {
@@ -416,7 +943,7 @@ async function execFancy(cmd: string, args: readonly string[], opts: ExecFancyOp
             }
         });
         proc.on("error", err => {
-            currentProcess = undefined;
+            endSession();
             rej(err);
         });
     });
@@ -424,6 +951,49 @@ async function execFancy(cmd: string, args: readonly string[], opts: ExecFancyOp
     return { stdout, stderr };
 }
 
+/**
+ * Makes sure we can create a venv, with uv or with the system Python, and
+ * tells the user what to do if not.
+ */
+function checkSystemPython(checks: EnvironmentChecks): boolean {
+    if (checks.environmentManager === "uv") {
+        if (!checks.uvCommand) {
+            vscode.window.showErrorMessage("Cannot install RobotPy: robotpy.environmentManager is set to uv, but uv is not installed.", "Install uv")
+                .then(action => {
+                    if (action === "Install uv") {
+                        vscode.env.openExternal(vscode.Uri.parse(UV_DOCS_URL));
+                    }
+                });
+            return false;
+        }
+        return true;
+    }
+    if (!checks.hasSystemPython) {
+        vscode.window.showErrorMessage("Cannot install RobotPy: Python is not installed on your system.", "Visit Docs")
+            .then(action => {
+                if (action === "Visit Docs") {
+                    vscode.env.openExternal(vscode.Uri.parse(ROBOTPY_DOCS_URL));
+                }
+            });
+        return false;
+    }
+    assert.ok(checks.systemPythonCommand);
+    if (!checks.isSystemPythonNewEnough) {
+        vscode.window.showErrorMessage(`Cannot install RobotPy: Your system version of Python (${checks.systemPythonCommand.versionStr}) is too old. Please upgrade to the latest version.`, "Visit Docs")
+            .then(action => {
+                if (action === "Visit Docs") {
+                    vscode.env.openExternal(vscode.Uri.parse(ROBOTPY_DOCS_URL));
+                }
+            });
+        return false;
+    }
+    if (!checks.hasSystemPythonVenvModule) {
+        vscode.window.showErrorMessage(`Cannot install RobotPy: Your system Python installation does not include the "venv" module. Please install it in the appropriate way for your system, or reach out to a mentor for help.`);
+        return false;
+    }
+    return true;
+}
+
 /**
  * Ensure that a venv is created with a new enough version of Python and
  * robotpy installed, and that the project has been configured to use the venv.
@@ -450,41 +1020,13 @@ async function ensureVenv(rootPath: string, checks: EnvironmentChecks): Promise<
         return true;
     }
 
-    function checkSystemPython(): boolean {
-        if (!checks.hasSystemPython) {
-            vscode.window.showErrorMessage("Cannot install RobotPy: Python is not installed on your system.", "Visit Docs")
-                .then(action => {
-                    if (action === "Visit Docs") {
-                        vscode.env.openExternal(vscode.Uri.parse(ROBOTPY_DOCS_URL));
-                    }
-                });
-            return false;
-        }
-        assert.ok(checks.systemPythonCommand);
-        if (!checks.isSystemPythonNewEnough) {
-            vscode.window.showErrorMessage(`Cannot install RobotPy: Your system version of Python (${checks.systemPythonCommand.versionStr}) is too old. Please upgrade to the latest version.`, "Visit Docs")
-                .then(action => {
-                    if (action === "Visit Docs") {
-                        vscode.env.openExternal(vscode.Uri.parse(ROBOTPY_DOCS_URL));
-                    }
-                });
-            return false;
-        }
-        if (!checks.hasSystemPythonVenvModule) {
-            vscode.window.showErrorMessage(`Cannot install RobotPy: Your system Python installation does not include the "venv" module. Please install it in the appropriate way for your system, or reach out to a mentor for help.`);
-            return false;
-        }
-        return true;
-    }
-
     try {
         if (!checks.hasVenvFolder) {
             // Need to create the venv from scratch.
 
-            if (!checkSystemPython()) {
+            if (!checkSystemPython(checks)) {
                 return false;
             }
-            assert.ok(checks.systemPythonCommand);
 
             const userWantsToCreateVenv = await new Promise<boolean>(res => {
                 vscode.window.showWarningMessage(
@@ -495,17 +1037,15 @@ async function ensureVenv(rootPath: string, checks: EnvironmentChecks): Promise<
                 return false;
             }
 
-            await createVenv(rootPath, checks.systemPythonCommand);
-            await installLatestRobotPy(rootPath);
+            return await setUpVenv(rootPath, checks);
         } else if (!checks.isVenvPythonNewEnough) {
             // venv exists, but its Python is out of date. This should only happen
             // for old projects. Prompt the user to tear down and recreate the
             // venv.
 
-            if (!checkSystemPython()) {
+            if (!checkSystemPython(checks)) {
                 return false;
             }
-            assert.ok(checks.systemPythonCommand);
 
             const userWantsToReplaceVenv = await new Promise<boolean>(res => {
                 vscode.window.showInformationMessage("A virtual environment already exists, but is out of date. Would you like to tear it down and recreate it?", "Yes", "No")
@@ -517,12 +1057,14 @@ async function ensureVenv(rootPath: string, checks: EnvironmentChecks): Promise<
 
             outputChannel.appendLine("Deleting existing virtual environment...");
             fs.rmSync(getVenvPath(rootPath), { recursive: true, force: true });
-            await createVenv(rootPath, checks.systemPythonCommand);
-            await installLatestRobotPy(rootPath);
+            return await setUpVenv(rootPath, checks);
         } else if (!checks.isVenvReady) {
             // venv exists with a new enough Python, but it doesn't contain
             // robotpy. Install it with pip.
-            await installLatestRobotPy(rootPath);
+            return await withSetupProgress(rootPath, "Installing RobotPy", 1, async progress => {
+                await installLatestRobotPy(rootPath, checks, progress);
+                return true;
+            }) ?? false;
         }
         return true;
     } catch (e) {
@@ -533,6 +1075,18 @@ async function ensureVenv(rootPath: string, checks: EnvironmentChecks): Promise<
     }
 }
 
+/**
+ * Creates the venv and installs RobotPy in it, showing progress. Resolves to
+ * false if the user cancelled, and rejects if there was an error.
+ */
+async function setUpVenv(rootPath: string, checks: EnvironmentChecks): Promise<boolean> {
+    return await withSetupProgress(rootPath, "Setting up RobotPy", 2, async progress => {
+        await createVenv(rootPath, checks, progress);
+        await installLatestRobotPy(rootPath, checks, progress);
+        return true;
+    }) ?? false;
+}
+
 /**
  * Creates the RobotPy venv, and configures the workspace to use it. Does not
  * install RobotPy.
@@ -540,63 +1094,260 @@ async function ensureVenv(rootPath: string, checks: EnvironmentChecks): Promise<
  * Rejects if there was an error; you should run checks ahead of time (e.g. in
  * `ensureVenv`) to make sure this will not error.
  */
-async function createVenv(rootPath: string, systemPy: PythonCommand): Promise<void> {
+async function createVenv(rootPath: string, checks: EnvironmentChecks, progress?: SetupProgress): Promise<void> {
     outputChannel.appendLine("Creating virtual environment...");
+    progress?.phase("Creating virtual environment");
 
     const venvPath = getVenvPath(rootPath);
-    await execFancy(systemPy.cmd, [...systemPy.args, "-m", "venv", venvPath], {
-        cwd: rootPath,
-        showTerminal: true,
-    });
+    try {
+        await runCreateVenv(rootPath, venvPath, checks);
+    } catch (e) {
+        // A half-made venv looks like a broken one, so remove it and let the
+        // next attempt start over.
+        outputChannel.appendLine("Removing incomplete virtual environment...");
+        fs.rmSync(venvPath, { recursive: true, force: true });
+        throw e;
+    }
     outputChannel.appendLine("Virtual environment created successfully.");
 
     await setWorkspacePythonInterpreter(rootPath);
 }
 
+async function runCreateVenv(rootPath: string, venvPath: string, checks: EnvironmentChecks): Promise<void> {
+    if (checks.environmentManager === "uv") {
+        assert.ok(checks.uvCommand);
+        // Use the system Python if it is suitable, and otherwise let uv find
+        // (or download) one. `--seed` installs pip, which `robotpy sync` needs.
+        const systemPy = checks.systemPythonCommand;
+        const python = systemPy && checks.isSystemPythonNewEnough
+            ? systemPy.executable
+            : `>=${getSettings(rootPath).pythonMinVersion.join(".")}`;
+        // Offline, pip comes from the offline cache, and uv must not try to
+        // download a Python.
+        const offlineArgs = getSettings(rootPath).offlineMode
+            ? ["--offline", "--no-index", "--find-links", getOfflineCacheDir(rootPath)]
+            : [];
+        await execFancy(checks.uvCommand, ["venv", "--seed", ...offlineArgs, "--python", python, venvPath], {
+            cwd: rootPath,
+            showTerminal: true,
+            kind: "setup",
+        });
+    } else {
+        const systemPy = checks.systemPythonCommand;
+        assert.ok(systemPy);
+        await execFancy(systemPy.cmd, [...systemPy.args, "-m", "venv", venvPath], {
+            cwd: rootPath,
+            showTerminal: true,
+            kind: "setup",
+        });
+    }
+}
+
 /**
  * Installs the latest RobotPy in the venv. Does not run `robotpy sync`.
  *
  * Rejects if there was an error; you should run checks ahead of time (e.g. in
  * `ensureVenv`) to make sure this will not error.
  */
-async function installLatestRobotPy(rootPath: string): Promise<void> {
+async function installLatestRobotPy(rootPath: string, checks: EnvironmentChecks, progress?: SetupProgress): Promise<void> {
     outputChannel.appendLine("Installing/upgrading RobotPy...");
+    progress?.phase("Installing RobotPy");
 
-    const pipPath = getVenvPipPath(rootPath);
-    await execFancy(pipPath, ["install", "--upgrade", "robotpy"], {
+    // Offline, "latest" means whatever the project needs from the cache.
+    const pipArgs = getSettings(rootPath).offlineMode
+        ? getOfflinePipInstallArgs(rootPath, getLocalRequirements(readRobotPyConfig(rootPath) ?? { components: [], requires: [], raw: {} }))
+        : ["install", "--upgrade", "robotpy"];
+    // `uv pip` takes the same arguments as pip, and is much faster.
+    const [cmd, args] = checks.environmentManager === "uv" && checks.uvCommand
+        ? [checks.uvCommand, ["pip", pipArgs[0], "--python", getVenvPythonPath(rootPath), ...pipArgs.slice(1)]]
+        : [getVenvPipPath(rootPath), pipArgs];
+    await execFancy(cmd, args, {
         cwd: rootPath,
         showTerminal: true,
+        kind: "setup",
+        onData: progress?.onData,
     });
     outputChannel.appendLine("RobotPy installed successfully.");
 }
 
 async function setWorkspacePythonInterpreter(rootPath: string): Promise<void> {
     const pythonPath = getVenvPythonPath(rootPath);
+    if (!vscode.workspace.getWorkspaceFolder(vscode.Uri.file(rootPath))) {
+        // VS Code can only change the settings of open folders, so for a
+        // folder that is not open yet (a new project), write them ourselves.
+        const settingsPath = path.join(rootPath, ".vscode", "settings.json");
+        if (fs.existsSync(settingsPath)) {
+            outputChannel.appendLine(`Leaving existing settings alone: ${settingsPath}`);
+            return;
+        }
+        fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+        fs.writeFileSync(settingsPath, JSON.stringify({ "python.defaultInterpreterPath": pythonPath }, null, 4) + "\n");
+        outputChannel.appendLine(`Configured Python extension to use: ${pythonPath}`);
+        return;
+    }
     const config = vscode.workspace.getConfiguration("python", vscode.Uri.file(rootPath));
-    await config.update("defaultInterpreterPath", pythonPath, vscode.ConfigurationTarget.Workspace);
+    // Any level counts: a path the user chose for the whole workspace or for
+    // themselves would be overridden by our folder setting just the same.
+    const inspected = config.inspect<string>("defaultInterpreterPath");
+    const existing = inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+    if (existing && existing !== pythonPath && !getSettings(rootPath).overwriteInterpreterPath) {
+        outputChannel.appendLine(`Leaving python.defaultInterpreterPath set to ${existing} (robotpy.overwriteInterpreterPath is off)`);
+        return;
+    }
+    // Each folder in a multi-root workspace has its own venv, so the setting
+    // must be scoped to the folder and not the whole workspace.
+    await config.update("defaultInterpreterPath", pythonPath, vscode.ConfigurationTarget.WorkspaceFolder);
     outputChannel.appendLine(`Configured Python extension to use: ${pythonPath}`);
 }
 
 // ============================================================================
-// Commands and major lifecycle moments
+// Setup progress
 
-async function robotpyCommand(rootPath: string, args: readonly string[]) {
-    return await execFancy(getVenvPythonPath(rootPath), ["-m", "robotpy", ...args], {
-        showTerminal: true,
-        cwd: rootPath,
-        prettyName: `robotpy ${args.join(" ")}`,
-    });
+/**
+ * A cancellable progress notification for setting up the venv or syncing,
+ * which can take minutes on a slow connection.
+ */
+interface SetupProgress {
+    /** Moves on to the next phase, e.g. "Installing RobotPy". */
+    phase: (message: string) => void,
+    /**
+     * Like `phase`, for use in a process's output callback: once cancelled it
+     * does nothing, since throwing there would not reach the task. Stopping
+     * the process already ends the task.
+     */
+    phaseFromOutput: (message: string) => void,
+    /** Feeds in pip's output, to show how far along the phase is. */
+    onData: (data: string) => void,
 }
 
-async function onProjectOpen() {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-        // No workspace active, so don't activate further.
-        return;
-    }
-    const rootPath = workspaceFolders[0].uri.fsPath;
-
-    const [checks, didError] = await checkEnvironment(rootPath);
+/**
+ * Runs `task` with a progress notification whose bar is split equally between
+ * `phaseCount` phases. Cancelling stops the project's setup and sync
+ * processes. Resolves to undefined if the user cancelled, after telling them
+ * how to pick up where they left off; other errors reject as usual.
+ */
+async function withSetupProgress<T>(rootPath: string, title: string, phaseCount: number, task: (progress: SetupProgress) => Promise<T>): Promise<T | undefined> {
+    let cancelled = false;
+    try {
+        return await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title,
+            cancellable: true,
+        }, async (report, token) => {
+            const cancelListener = token.onCancellationRequested(() => {
+                cancelled = true;
+                outputChannel.appendLine(`Cancelled: ${title}`);
+                stopSessions(s => s.rootPath === rootPath && (s.kind === "setup" || s.kind === "sync"));
+            });
+
+            // Progress increments add up, so keep track of what has been reported.
+            let phase = -1;
+            let phaseName = "";
+            let tracker: PipProgressTracker = createPipProgressTracker();
+            let reported = 0;
+            const setProgress = (message: string, fraction: number) => {
+                const total = 100 * (Math.max(phase, 0) + fraction) / phaseCount;
+                report.report({ message, increment: Math.max(0, total - reported) });
+                reported = Math.max(reported, total);
+            };
+
+            const nextPhase = (message: string) => {
+                phase = Math.min(phase + 1, phaseCount - 1);
+                phaseName = message;
+                tracker = createPipProgressTracker();
+                setProgress(`${message}...`, 0);
+            };
+
+            try {
+                return await task({
+                    phase(message) {
+                        if (token.isCancellationRequested) {
+                            // Between processes, so there was nothing to stop.
+                            throw new vscode.CancellationError();
+                        }
+                        nextPhase(message);
+                    },
+                    phaseFromOutput(message) {
+                        if (!token.isCancellationRequested) {
+                            nextPhase(message);
+                        }
+                    },
+                    onData(data) {
+                        const update = tracker.onOutput(data);
+                        if (update) {
+                            setProgress(`${phaseName}: ${update.message}`, update.fraction);
+                        }
+                    },
+                });
+            } finally {
+                cancelListener.dispose();
+            }
+        });
+    } catch (e) {
+        if (!cancelled) {
+            throw e;
+        }
+        vscode.window.showInformationMessage(`${title} was cancelled. Run it again to finish.`);
+        return undefined;
+    }
+}
+
+// ============================================================================
+// Commands and major lifecycle moments
+
+function getRobotPyProcessKind(args: readonly string[]): ProcessKind {
+    switch (args[0]) {
+        case "init":
+        case "sim":
+        case "deploy":
+        case "test":
+        case "sync":
+            return args[0];
+        case "project":
+            return "sync";
+        default:
+            return "other";
+    }
+}
+
+async function robotpyCommand(rootPath: string, args: readonly string[], env?: Record<string, string>, onData?: (data: string) => void) {
+    const errorWatcher = watchOutputForErrors(rootPath, getRobotPyProcessKind(args));
+    try {
+        return await execFancy(getVenvPythonPath(rootPath), ["-m", "robotpy", ...args], {
+            showTerminal: true,
+            cwd: rootPath,
+            env,
+            prettyName: `robotpy ${args.join(" ")}`,
+            kind: getRobotPyProcessKind(args),
+            onData: (data, stream) => {
+                errorWatcher.onData(data, stream);
+                onData?.(data);
+            },
+        });
+    } finally {
+        errorWatcher.finish();
+    }
+}
+
+async function isRobotPyProject(rootPath: string): Promise<boolean> {
+    try {
+        const fileContent = await vscode.workspace.fs.readFile(vscode.Uri.file(path.join(rootPath, 'pyproject.toml')));
+        return Buffer.from(fileContent).toString('utf8').includes('[tool.robotpy]');
+    } catch (e) {
+        outputChannel.appendLine(`Expected (?) error when checking for pyproject.toml: ${e}`);
+        return false;
+    }
+}
+
+async function onProjectOpen(folder: vscode.WorkspaceFolder) {
+    const rootPath = folder.uri.fsPath;
+    const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+
+    outputChannel.appendLine(`Opening workspace folder: ${rootPath}`);
+    // Watch even folders that are not RobotPy projects yet, in case someone
+    // runs `robotpy init` in them.
+    watchProject(rootPath);
+    const [checks, didError] = await checkEnvironment(rootPath);
     if (didError) {
         vscode.window.showWarningMessage("There were errors when checking the system environment for RobotPy. See the output log for details.");
     }
@@ -607,29 +1358,26 @@ async function onProjectOpen() {
     if (!checks.hasRobotPyProjectFile) {
         return;
     }
+    rememberRequirements(rootPath);
 
     const venvOk = await ensureVenv(rootPath, checks);
     if (!venvOk) {
         return;
     }
 
-    const userWantsToSync = await new Promise<boolean>(res => {
-        vscode.window.showInformationMessage("Would you like to run `robotpy sync` to make sure your project is up to date?", "Yes (Recommended)", "No")
+    const syncOnOpen = getSettings(rootPath).syncOnOpen;
+    const userWantsToSync = syncOnOpen === "always" || (syncOnOpen === "ask" && await new Promise<boolean>(res => {
+        const where = isMultiRoot ? ` in "${folder.name}"` : "";
+        vscode.window.showInformationMessage(`Would you like to run \`robotpy sync\`${where} to make sure your project is up to date?`, "Yes (Recommended)", "No")
             .then(action => res(action === "Yes (Recommended)"));
-    });
+    }));
     if (userWantsToSync) {
-        outputChannel.appendLine("Running sync on project open");
-        await robotpyCommand(rootPath, ["project", "update-robotpy"]);
-        await robotpyCommand(rootPath, ["sync"]);
+        outputChannel.appendLine(`Running sync on project open: ${rootPath}`);
+        await syncProject(rootPath);
     }
 }
 
-async function ensureRobotPyReady(): Promise<boolean> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-        return false;
-    }
-    const rootPath = workspaceFolders[0].uri.fsPath;
+async function ensureRobotPyReady(rootPath: string): Promise<boolean> {
     const [checks, checkError] = await checkEnvironment(rootPath);
     if (checkError) {
         vscode.window.showErrorMessage("Failed to check if RobotPy is ready. See the output log for details.");
@@ -643,12 +1391,48 @@ async function ensureRobotPyReady(): Promise<boolean> {
     return true;
 }
 
-function mustGetRootPath(): string {
+/**
+ * Picks the workspace folder that a RobotPy command should run in. Prefers the
+ * folder of the active editor, then the only RobotPy project in the workspace,
+ * and otherwise asks the user.
+ *
+ * If `requireProject` is false (e.g. for `robotpy init`), any workspace folder
+ * may be chosen, not just the ones that already contain a RobotPy project.
+ *
+ * Resolves to undefined if there is no suitable folder or the user cancelled
+ * the picker.
+ */
+async function pickRootPath(requireProject = true): Promise<string | undefined> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-        throw new Error("No workspace is open");
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+        vscode.window.showErrorMessage("Cannot run RobotPy commands: no folder is open.");
+        return undefined;
     }
-    return workspaceFolders[0].uri.fsPath;
+
+    let candidates: vscode.WorkspaceFolder[] = [...workspaceFolders];
+    if (requireProject) {
+        const isProject = await Promise.all(candidates.map(f => isRobotPyProject(f.uri.fsPath)));
+        candidates = candidates.filter((_, i) => isProject[i]);
+        if (candidates.length === 0) {
+            vscode.window.showErrorMessage("Cannot run RobotPy commands: no folder in this workspace has a pyproject.toml with a [tool.robotpy] section.");
+            return undefined;
+        }
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+    if (activeFolder && candidates.includes(activeFolder)) {
+        return activeFolder.uri.fsPath;
+    }
+    if (candidates.length === 1) {
+        return candidates[0].uri.fsPath;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        candidates.map(f => ({ label: f.name, description: f.uri.fsPath, folder: f })),
+        { placeHolder: "Select the RobotPy project to run this command in" },
+    );
+    return picked?.folder.uri.fsPath;
 }
 
 async function saveCurrentFile(): Promise<boolean> {
@@ -662,23 +1446,3357 @@ async function saveCurrentFile(): Promise<boolean> {
 async function robotpyCommands(...cmds: string[][]) {
     await extensionInitialized;
 
-    if (currentProcess) {
-        if (await promptUserToKillCurrentProcess()) {
-            outputChannel.appendLine(`Killing current process to run RobotPy commands: ${JSON.stringify(cmds)}`);
-            killCurrentProcess();
+    // `robotpy init` is the one command that makes sense outside an existing
+    // RobotPy project.
+    const isInit = cmds.length === 1 && cmds[0][0] === "init";
+    const rootPath = await pickRootPath(!isInit);
+    if (!rootPath) {
+        return;
+    }
+
+    await robotpyCommandsIn(rootPath, ...cmds);
+}
+
+/** Like `robotpyCommands`, for when the project has already been chosen. */
+async function robotpyCommandsIn(rootPath: string, ...cmds: string[][]) {
+    if (!await prepareRobotPyCommands(rootPath, cmds)) {
+        return;
+    }
+    for (const cmd of cmds) {
+        if (cmd[0] === "deploy") {
+            // What is deployed is what is on disk now, not after the deploy.
+            const git = await getGitInfo(rootPath);
+            await robotpyCommand(rootPath, cmd);
+            await recordDeploy(rootPath, cmd, getLastDeployProfile(rootPath), git);
         } else {
-            return true;
+            await robotpyCommand(rootPath, cmd);
+        }
+    }
+}
+
+/**
+ * Does everything that needs to happen before running RobotPy commands:
+ * stopping conflicting processes, saving, making sure the venv is ready, and
+ * before deploying, checking for uncommitted changes and that the robot is
+ * there. Resolves to false if the commands should not run.
+ */
+async function prepareRobotPyCommands(rootPath: string, cmds: readonly string[][]): Promise<boolean> {
+    for (const cmd of cmds) {
+        if (!await stopConflictingSessions(getRobotPyProcessKind(cmd), rootPath, `robotpy ${cmd.join(" ")}`)) {
+            return false;
         }
     }
 
     if (!await saveCurrentFile()) {
         vscode.window.showWarningMessage("Failed to save current file. Results may not be what you expect.");
+        return false;
+    }
+    if (!await ensureRobotPyReady(rootPath)) {
+        return false;
+    }
+    for (const cmd of cmds) {
+        if (cmd[0] === "deploy" && (!await checkUncommittedChanges(rootPath) || !await checkRobotReachable(rootPath, cmd))) {
+            return false;
+        }
+    }
+    return true;
+}
+
+async function syncCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath || !await prepareRobotPyCommands(rootPath, ROBOTPY_TASKS.sync.cmds)) {
+        return;
+    }
+    await syncProject(rootPath);
+}
+
+/**
+ * Updates the project's RobotPy version if the user agrees and runs `robotpy
+ * sync`, or in offline mode, installs the project's requirements from the
+ * offline cache.
+ */
+async function syncProject(rootPath: string) {
+    // Syncing is what the "requirements changed" prompt would suggest, so
+    // only prompt for changes made after this.
+    rememberRequirements(rootPath);
+    try {
+        await syncProjectRequirements(rootPath);
+    } finally {
+        rememberRequirements(rootPath);
+    }
+}
+
+async function syncProjectRequirements(rootPath: string) {
+    if (getSettings(rootPath).offlineMode) {
+        await offlineSync(rootPath);
         return;
     }
-    if (!await ensureRobotPyReady()) {
+    const update = await reviewRobotPyUpdate(rootPath);
+    if (update === undefined) {
         return;
     }
-    for (const cmd of cmds) {
-        await robotpyCommand(mustGetRootPath(), cmd);
+    await withSetupProgress(rootPath, "Syncing RobotPy project", update ? 3 : 2, async progress => {
+        if (update) {
+            progress.phase("Updating pyproject.toml");
+            await robotpyCommand(rootPath, UPDATE_ROBOTPY_ARGS);
+        }
+        progress.phase("Installing packages");
+        let downloadingForRobot = false;
+        for (const cmd of ROBOTPY_TASKS.sync.cmds) {
+            await robotpyCommand(rootPath, cmd, undefined, data => {
+                // After installing locally, sync downloads the roboRIO's
+                // wheels, whose file names say so.
+                if (!downloadingForRobot && /roborio/i.test(data)) {
+                    downloadingForRobot = true;
+                    progress.phaseFromOutput("Downloading roboRIO packages");
+                }
+                progress.onData(data);
+            });
+        }
+    });
+}
+
+// ============================================================================
+// Tasks
+
+const ROBOTPY_TASK_TYPE = "robotpy";
+
+type RobotPyTaskName = "sim" | "deploy" | "deploySkipTests" | "sync" | "test";
+
+interface RobotPyTaskDefinition extends vscode.TaskDefinition {
+    command: RobotPyTaskName,
+    /** Extra arguments appended to the (last) RobotPy command. */
+    args?: string[],
+    /** For deploy and sim tasks, the name of the deploy or sim profile to use. */
+    profile?: string,
+}
+
+/**
+ * The RobotPy commands behind each task. These are shared with the command
+ * palette commands so that a task always does the same thing as the
+ * corresponding button.
+ */
+const ROBOTPY_TASKS: Record<RobotPyTaskName, { label: string, cmds: string[][], group?: vscode.TaskGroup }> = {
+    sim: { label: "Simulate", cmds: [["sim"]] },
+    deploy: { label: "Deploy", cmds: [["deploy"]] },
+    deploySkipTests: { label: "Deploy (Skip Tests)", cmds: [["deploy", "--skip-tests"]] },
+    sync: { label: "Sync", cmds: [["sync"]], group: vscode.TaskGroup.Build },
+    test: { label: "Test", cmds: [["test"]], group: vscode.TaskGroup.Test },
+};
+
+async function provideRobotPyTasks(): Promise<vscode.Task[]> {
+    const tasks: vscode.Task[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        if (!await isRobotPyProject(folder.uri.fsPath)) {
+            continue;
+        }
+        for (const command of Object.keys(ROBOTPY_TASKS) as RobotPyTaskName[]) {
+            const task = makeRobotPyTask({ type: ROBOTPY_TASK_TYPE, command }, folder);
+            if (task) {
+                tasks.push(task);
+            }
+        }
+    }
+    return tasks;
+}
+
+function resolveRobotPyTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as RobotPyTaskDefinition;
+    if (!ROBOTPY_TASKS[definition.command]) {
+        outputChannel.appendLine(`Unknown RobotPy task command: ${definition.command}`);
+        return undefined;
+    }
+
+    let folder: vscode.WorkspaceFolder | undefined;
+    if (task.scope && typeof task.scope === "object") {
+        folder = task.scope;
+    } else if (vscode.workspace.workspaceFolders?.length === 1) {
+        folder = vscode.workspace.workspaceFolders[0];
+    }
+    if (!folder) {
+        outputChannel.appendLine(`Could not determine the workspace folder for RobotPy task: ${task.name}`);
+        return undefined;
+    }
+
+    // VS Code requires the resolved task to use the exact definition object
+    // it was given.
+    return makeRobotPyTask(definition, folder, task.name);
+}
+
+function makeRobotPyTask(definition: RobotPyTaskDefinition, folder: vscode.WorkspaceFolder, name?: string): vscode.Task | undefined {
+    const info = ROBOTPY_TASKS[definition.command];
+    if (!info) {
+        return undefined;
+    }
+
+    const rootPath = folder.uri.fsPath;
+    const offlineMode = getSettings(rootPath).offlineMode;
+    let cmds = info.cmds.map(cmd => [...cmd]);
+    if (definition.command === "sync" && offlineMode) {
+        const config = readRobotPyConfig(rootPath);
+        if (!config) {
+            return undefined;
+        }
+        cmds = [["-m", "pip", ...getOfflinePipInstallArgs(rootPath, getLocalRequirements(config))]];
+    } else {
+        cmds = cmds.map(cmd => ["-m", "robotpy", ...cmd]);
+    }
+    const isDeploy = definition.command === "deploy" || definition.command === "deploySkipTests";
+    let deployProfile: DeployProfile | undefined;
+    if (definition.profile && isDeploy) {
+        deployProfile = getSettings(rootPath).deployProfiles.find(p => p.name === definition.profile);
+        if (!deployProfile) {
+            outputChannel.appendLine(`Unknown deploy profile in task: ${definition.profile}`);
+            return undefined;
+        }
+        cmds = [["-m", "robotpy", ...getDeployArgs(deployProfile, definition.command === "deploySkipTests")]];
+    }
+    let env: Record<string, string> | undefined;
+    if (definition.profile && definition.command === "sim") {
+        const profile = getSettings(rootPath).simProfiles.find(p => p.name === definition.profile);
+        if (!profile) {
+            outputChannel.appendLine(`Unknown sim profile in task: ${definition.profile}`);
+            return undefined;
+        }
+        cmds = [["-m", "robotpy", ...getSimArgs(profile)]];
+        env = profile.env;
+    }
+    if (definition.args && definition.args.length > 0) {
+        cmds[cmds.length - 1].push(...definition.args);
+    }
+
+    const task = new vscode.Task(
+        definition,
+        folder,
+        name ?? info.label,
+        ROBOTPY_TASK_TYPE,
+        new vscode.CustomExecution(async () => {
+            // Like the sync command, only update RobotPy if the user agrees.
+            if (definition.command === "sync" && !offlineMode) {
+                const update = await reviewRobotPyUpdate(rootPath);
+                if (update === undefined) {
+                    return robotpyTaskTerminal(rootPath, []);
+                }
+                if (update) {
+                    return robotpyTaskTerminal(rootPath, [["-m", "robotpy", ...UPDATE_ROBOTPY_ARGS], ...cmds]);
+                }
+            }
+            if (isDeploy) {
+                const deployArgs = [...getDeployArgs(deployProfile, definition.command === "deploySkipTests"), ...definition.args ?? []];
+                // Like the deploy command, check before running the tests.
+                if (!await checkUncommittedChanges(rootPath) || !await checkRobotReachable(rootPath, deployArgs)) {
+                    return robotpyTaskTerminal(rootPath, []);
+                }
+                // What is deployed is what is on disk now, not after the deploy.
+                const git = await getGitInfo(rootPath);
+                return robotpyTaskTerminal(rootPath, cmds, env, async code => {
+                    if (code !== 0) {
+                        return;
+                    }
+                    try {
+                        await recordDeploy(rootPath, deployArgs, deployProfile, git);
+                    } catch (e) {
+                        outputChannel.appendLine(`Failed to record the deploy: ${e}`);
+                    }
+                });
+            }
+            return robotpyTaskTerminal(rootPath, cmds, env);
+        }),
+    );
+    if (info.group) {
+        task.group = info.group;
+    }
+    task.presentationOptions = { reveal: vscode.TaskRevealKind.Always, panel: vscode.TaskPanelKind.Shared };
+    return task;
+}
+
+/**
+ * Creates the pseudoterminal for a RobotPy task. Like `robotpyCommand`, this
+ * runs the venv Python directly, without a shell, and runs each command (a
+ * list of Python arguments, e.g. `-m robotpy sim`) in turn until one fails.
+ * Each process is tracked as a session, so tasks and commands stop each
+ * other the same way commands do.
+ */
+function robotpyTaskTerminal(
+    rootPath: string,
+    cmds: readonly string[][],
+    env?: Record<string, string>,
+    onDone?: (code: number) => Promise<void>,
+): vscode.Pseudoterminal {
+    const writeEmitter = new vscode.EventEmitter<string>();
+    const closeEmitter = new vscode.EventEmitter<number>();
+    let session: ProcessSession | undefined;
+    let stopped = false;
+
+    const lineEditor = createLineEditor({
+        echo: data => writeEmitter.fire(data),
+        send: text => session?.proc.stdin.write(text),
+        onInterrupt: () => {
+            stopped = true;
+            if (session) {
+                stopSession(session);
+            }
+        },
+        onEof: () => session?.proc.stdin.end(),
+    });
+
+    function write(str: string) {
+        writeEmitter.fire(str.replace(/(?<!\r)\n/g, "\r\n"));
+        lineEditor.onOutput(str);
+    }
+
+    async function runOne(args: readonly string[]): Promise<number> {
+        const kind = args[0] === "-m" && args[1] === "robotpy" ? getRobotPyProcessKind(args.slice(2)) : "sync";
+        const cmdString = args[0] === "-m" ? args.slice(1).join(" ") : `python ${args.join(" ")}`;
+        if (!await stopConflictingSessions(kind, rootPath, cmdString)) {
+            const running = findConflictingSessions(kind, rootPath).map(s => s.prettyName).join(", ");
+            write(`Could not run ${cmdString} because another process (${running}) is running.\n`);
+            return 1;
+        }
+
+        const errorWatcher = watchOutputForErrors(rootPath, kind);
+        return new Promise<number>(res => {
+            const pythonPath = getVenvPythonPath(rootPath);
+            outputChannel.appendLine(`Running task: ${cmdString}`);
+            write(`$ ${cmdString}\n`);
+            lineEditor.reset();
+
+            const proc = spawn(pythonPath, args, {
+                cwd: rootPath,
+                stdio: "pipe",
+                env: {
+                    ...process.env,
+                    "PYTHONUNBUFFERED": "1",
+                    ...env,
+                },
+            });
+            const thisSession: ProcessSession = { kind, rootPath, proc, cmdString, prettyName: cmdString };
+            session = thisSession;
+            processSessions.add(thisSession);
+            refreshSidebar();
+            function endSession() {
+                processSessions.delete(thisSession);
+                if (session === thisSession) {
+                    session = undefined;
+                }
+                refreshSidebar();
+            }
+
+            proc.stdout.on("data", data => {
+                write(data.toString());
+                errorWatcher.onData(data.toString(), "stdout");
+            });
+            proc.stderr.on("data", data => {
+                write(data.toString());
+                errorWatcher.onData(data.toString(), "stderr");
+            });
+            proc.on("close", (code, signal) => {
+                const msg = code === null ? `Process was killed with signal ${signal}` : `Process exited with code ${code}`;
+                write(`\n${msg}\n`);
+                endSession();
+                res(code ?? 1);
+            });
+            proc.on("error", err => {
+                write(`\nFailed to run ${cmdString}: ${err.message}\n`);
+                write("Run \"RobotPy: Sync\" to set up the virtual environment.\n");
+                endSession();
+                res(1);
+            });
+        }).finally(() => errorWatcher.finish());
+    }
+
+    return {
+        onDidWrite: writeEmitter.event,
+        onDidClose: closeEmitter.event,
+        async open() {
+            let code = 0;
+            for (const args of cmds) {
+                if (stopped) {
+                    break;
+                }
+                code = await runOne(args);
+                if (code !== 0) {
+                    break;
+                }
+            }
+            await onDone?.(code);
+            closeEmitter.fire(code);
+        },
+        close() {
+            stopped = true;
+            if (session) {
+                stopSession(session);
+            }
+        },
+        handleInput(data) {
+            lineEditor.handleInput(data);
+        },
+    };
+}
+
+// ============================================================================
+// Testing
+
+const TESTS_DIR = "tests";
+
+function registerTestController(context: vscode.ExtensionContext) {
+    testController = vscode.tests.createTestController("robotpy", "RobotPy");
+    context.subscriptions.push(testController);
+
+    testController.resolveHandler = async item => {
+        if (!item) {
+            await discoverAllTests();
+        }
+    };
+    testController.refreshHandler = async () => {
+        await discoverAllTests();
+    };
+    testController.createRunProfile("Run", vscode.TestRunProfileKind.Run, runTests, true);
+
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${TESTS_DIR}/**/*.py`);
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidCreate(uri => discoverTestsInFile(uri)),
+        watcher.onDidChange(uri => discoverTestsInFile(uri)),
+        watcher.onDidDelete(uri => {
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            if (folder) {
+                testController?.items.get(folder.uri.fsPath)?.children.delete(uri.fsPath);
+            }
+        }),
+    );
+}
+
+/**
+ * Rebuilds the whole test tree. There is one top-level item per RobotPy
+ * project, whose ID is the project's root path.
+ */
+async function discoverAllTests() {
+    if (!testController) {
+        return;
+    }
+
+    const rootItems: vscode.TestItem[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const rootPath = folder.uri.fsPath;
+        if (!await isRobotPyProject(rootPath)) {
+            continue;
+        }
+
+        const rootItem = testController.createTestItem(rootPath, folder.name, folder.uri);
+        rootItems.push(rootItem);
+
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, `${TESTS_DIR}/**/*.py`));
+        for (const uri of files) {
+            if (isTestFileName(path.basename(uri.fsPath))) {
+                rootItem.children.add(await createTestFileItem(rootPath, uri));
+            }
+        }
+    }
+    testController.items.replace(rootItems);
+}
+
+async function discoverTestsInFile(uri: vscode.Uri) {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const rootItem = folder && testController?.items.get(folder.uri.fsPath);
+    if (!rootItem || !isTestFileName(path.basename(uri.fsPath))) {
+        return;
+    }
+    rootItem.children.add(await createTestFileItem(rootItem.id, uri));
+}
+
+/**
+ * Creates the item for a test file. Test IDs below the file are pytest node
+ * IDs using the absolute file path (`/path/to/test_foo.py::TestClass::test_bar`),
+ * which means they can be passed straight to pytest.
+ */
+async function createTestFileItem(rootPath: string, uri: vscode.Uri): Promise<vscode.TestItem> {
+    assert.ok(testController);
+
+    const label = path.relative(path.join(rootPath, TESTS_DIR), uri.fsPath).replace(/\\/g, "/");
+    const fileItem = testController.createTestItem(uri.fsPath, label, uri);
+
+    let source = "";
+    try {
+        source = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+    } catch (e) {
+        outputChannel.appendLine(`Failed to read test file ${uri.fsPath}: ${e}`);
+    }
+
+    for (const test of findTestsInSource(source)) {
+        const item = testController.createTestItem(`${uri.fsPath}::${test.name}`, test.name, uri);
+        item.range = new vscode.Range(test.line, 0, test.line, 0);
+        for (const child of test.children ?? []) {
+            const childItem = testController.createTestItem(`${item.id}::${child.name}`, child.name, uri);
+            childItem.range = new vscode.Range(child.line, 0, child.line, 0);
+            item.children.add(childItem);
+        }
+        fileItem.children.add(item);
+    }
+
+    return fileItem;
+}
+
+async function runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
+    assert.ok(testController);
+    await extensionInitialized;
+
+    const run = testController.createTestRun(request);
+    const excluded = new Set(request.exclude ?? []);
+
+    /**
+     * Drops excluded items. An item with something excluded inside it (e.g. a
+     * file with one test excluded) is replaced by its remaining children, so
+     * that the rest of it still runs.
+     */
+    function withoutExcluded(item: vscode.TestItem): vscode.TestItem[] {
+        if (excluded.has(item)) {
+            return [];
+        }
+        const hasExcludedDescendant = [...excluded].some(e => {
+            for (let parent = e.parent; parent; parent = parent.parent) {
+                if (parent === item) {
+                    return true;
+                }
+            }
+            return false;
+        });
+        if (!hasExcludedDescendant) {
+            return [item];
+        }
+        const children: vscode.TestItem[] = [];
+        item.children.forEach(child => children.push(...withoutExcluded(child)));
+        return children;
+    }
+
+    // Group the requested items by project, since each project is a separate
+    // `robotpy test` invocation.
+    const itemsByProject = new Map<string, vscode.TestItem[]>();
+    const requested: vscode.TestItem[] = [];
+    if (request.include) {
+        requested.push(...request.include);
+    } else {
+        testController.items.forEach(item => requested.push(item));
+    }
+    for (const item of requested.flatMap(withoutExcluded)) {
+        let root = item;
+        while (root.parent) {
+            root = root.parent;
+        }
+        itemsByProject.set(root.id, [...(itemsByProject.get(root.id) ?? []), item]);
+    }
+
+    const cancelListener = token.onCancellationRequested(() => stopSessions(s => s.kind === "test"));
+    try {
+        for (const [rootPath, items] of itemsByProject) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            await runProjectTests(run, rootPath, items);
+        }
+    } finally {
+        cancelListener.dispose();
+        run.end();
+    }
+}
+
+async function runProjectTests(run: vscode.TestRun, rootPath: string, items: vscode.TestItem[]) {
+    assert.ok(testController);
+
+    const leaves: vscode.TestItem[] = [];
+    function collectLeaves(item: vscode.TestItem) {
+        if (item.children.size === 0) {
+            leaves.push(item);
+        }
+        item.children.forEach(collectLeaves);
+    }
+    items.forEach(collectLeaves);
+    leaves.forEach(item => run.enqueued(item));
+
+    if (!await ensureRobotPyReady(rootPath)) {
+        const message = new vscode.TestMessage("RobotPy is not set up in this project.");
+        leaves.forEach(item => run.errored(item, message));
+        return;
+    }
+
+    // Running a whole project means selecting the tests folder, since pyfrc
+    // only adds it by itself when no pytest arguments are given.
+    const selectors = items.map(item => item.id === rootPath ? path.join(rootPath, TESTS_DIR) : item.id);
+    const junitPath = path.join(os.tmpdir(), `robotpy-test-${process.pid}-${Date.now()}.xml`);
+
+    leaves.forEach(item => run.started(item));
+    const errorWatcher = watchOutputForErrors(rootPath, "test");
+    try {
+        await execFancy(getVenvPythonPath(rootPath), [
+            "-m", "robotpy", "test", "--",
+            "-o", "junit_family=xunit1", `--junitxml=${junitPath}`,
+            ...selectors,
+        ], {
+            cwd: rootPath,
+            prettyName: "robotpy test",
+            kind: "test",
+            onData: (data, stream) => {
+                run.appendOutput(data.replace(/(?<!\r)\n/g, "\r\n"));
+                errorWatcher.onData(data, stream);
+            },
+        });
+    } catch (e) {
+        // A failing test makes pytest exit non-zero, so this is expected. We
+        // find out what actually happened from the report.
+        outputChannel.appendLine(`robotpy test did not succeed: ${e}`);
+    } finally {
+        errorWatcher.finish();
+    }
+
+    let results: PytestCaseResult[];
+    try {
+        results = parseJUnitXml(fs.readFileSync(junitPath, "utf8"));
+        fs.rmSync(junitPath, { force: true });
+    } catch (e) {
+        outputChannel.appendLine(`Failed to read test results from ${junitPath}: ${e}`);
+        const message = new vscode.TestMessage("The tests did not run. See the test output for details.");
+        leaves.forEach(item => run.errored(item, message));
+        return;
+    }
+
+    // Parametrized tests report several results for one item, and the worst
+    // one wins.
+    const failedItems = new Set<vscode.TestItem>();
+    for (const result of results) {
+        const item = findOrCreateResultItem(rootPath, result);
+        if (!item || (failedItems.has(item) && result.outcome !== "failed" && result.outcome !== "errored")) {
+            continue;
+        }
+
+        switch (result.outcome) {
+            case "passed":
+                run.passed(item, result.duration);
+                break;
+            case "skipped":
+                run.skipped(item);
+                break;
+            case "failed":
+            case "errored": {
+                failedItems.add(item);
+                const message = new vscode.TestMessage(result.details ?? result.message ?? "Test failed");
+                if (item.uri) {
+                    const line = findFailureLine(result.details ?? "", path.basename(item.uri.fsPath)) ?? item.range?.start.line ?? 0;
+                    message.location = new vscode.Location(item.uri, new vscode.Position(line, 0));
+                }
+                if (result.outcome === "failed") {
+                    run.failed(item, message, result.duration);
+                } else {
+                    run.errored(item, message, result.duration);
+                }
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Finds the test item for a pytest result, creating it if we did not discover
+ * it ourselves (e.g. tests that come from `from pyfrc.tests import *`).
+ */
+function findOrCreateResultItem(rootPath: string, result: PytestCaseResult): vscode.TestItem | undefined {
+    assert.ok(testController);
+    const rootItem = testController.items.get(rootPath);
+    if (!rootItem) {
+        return undefined;
+    }
+
+    // The classname is the dotted module path relative to pytest's rootdir,
+    // which may be either the project or the tests folder, followed by any
+    // class names.
+    const parts = result.classname.split(".");
+    for (const base of [rootPath, path.join(rootPath, TESTS_DIR)]) {
+        for (let i = parts.length; i > 0; i--) {
+            const filePath = path.join(base, ...parts.slice(0, i)) + ".py";
+            const fileItem = rootItem.children.get(filePath);
+            if (!fileItem) {
+                continue;
+            }
+
+            let item = fileItem;
+
+            const names = [...parts.slice(i), result.name.replace(/\[.*\]$/, "")];
+            for (const name of names) {
+                let child = item.children.get(`${item.id}::${name}`);
+                if (!child) {
+                    child = testController.createTestItem(`${item.id}::${name}`, name, item.uri);
+                    item.children.add(child);
+                }
+                item = child;
+            }
+            return item;
+        }
+    }
+
+    outputChannel.appendLine(`Could not find a test item for result: ${result.classname}::${result.name}`);
+    return undefined;
+}
+
+// ============================================================================
+// CodeLens
+
+/**
+ * Shows "Simulate | Deploy | Run Tests" above the robot class, and "Run Test"
+ * above each test, for students who have not noticed the buttons in the
+ * editor title bar.
+ */
+async function provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (!folder || !getSettings(folder.uri.fsPath).codeLens || !await isRobotPyProject(folder.uri.fsPath)) {
+        return [];
+    }
+    const rootPath = folder.uri.fsPath;
+    const source = document.getText();
+    const lenses: vscode.CodeLens[] = [];
+
+    for (const robotClass of findRobotClasses(source)) {
+        const range = new vscode.Range(robotClass.line, 0, robotClass.line, 0);
+        lenses.push(
+            new vscode.CodeLens(range, { title: "$(vm) Simulate", command: "robotpy.sim" }),
+            new vscode.CodeLens(range, { title: "$(robot) Deploy", command: "robotpy.deploy" }),
+            new vscode.CodeLens(range, { title: "$(beaker) Run Tests", command: "robotpy.test" }),
+        );
+    }
+
+    const relative = path.relative(rootPath, document.uri.fsPath).split(path.sep);
+    if (relative[0] === TESTS_DIR && isTestFileName(path.basename(document.uri.fsPath))) {
+        const addTestLens = (line: number, selector: string, title: string) => {
+            lenses.push(new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+                title,
+                command: "robotpy.runTest",
+                arguments: [rootPath, selector],
+            }));
+        };
+        for (const test of findTestsInSource(source)) {
+            const selector = `${document.uri.fsPath}::${test.name}`;
+            addTestLens(test.line, selector, test.children ? "$(run-all) Run Tests" : "$(run) Run Test");
+            for (const child of test.children ?? []) {
+                addTestLens(child.line, `${selector}::${child.name}`, "$(run) Run Test");
+            }
+        }
+    }
+
+    return lenses;
+}
+
+/** Runs a single test (or test class), given as a pytest node ID. */
+async function runTestCommand(rootPath: string, selector: string) {
+    await extensionInitialized;
+    await robotpyCommandsIn(rootPath, ["test", "--", selector]);
+}
+
+// ============================================================================
+// Debugging
+
+const ROBOTPY_DEBUG_TYPE = "robotpy";
+const DEBUGPY_EXTENSION_ID = "ms-python.debugpy";
+const DEBUG_SIM_PRETTY_NAME = "robotpy sim (debugging)";
+
+/** The debug session of each project whose simulator is being debugged. */
+const simDebugSessions = new Map<string, vscode.DebugSession>();
+
+interface RobotPyDebugConfiguration extends vscode.DebugConfiguration {
+    /** Extra arguments passed to `robotpy sim`. */
+    args?: string[],
+    justMyCode?: boolean,
+}
+
+/**
+ * The debugpy attach configuration that a `robotpy` configuration resolves
+ * to. The `robotpySim` field tells us to launch the simulator once VS Code is
+ * listening for it.
+ */
+interface RobotPyAttachConfiguration extends vscode.DebugConfiguration {
+    listen: { host: string, port: number },
+    robotpySim?: { rootPath: string, args: string[] },
+}
+
+function defaultDebugConfiguration(): RobotPyDebugConfiguration {
+    return {
+        type: ROBOTPY_DEBUG_TYPE,
+        request: "launch",
+        name: "RobotPy: Debug Simulation",
+    };
+}
+
+async function debugSimulation() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+    await vscode.debug.startDebugging(vscode.workspace.getWorkspaceFolder(vscode.Uri.file(rootPath)), defaultDebugConfiguration());
+}
+
+/**
+ * Turns a `robotpy` debug configuration into a debugpy attach configuration.
+ * VS Code listens on a free port, and the simulator connects to it when it is
+ * launched in `onDebugSessionStarted`. Doing it in this order means we never
+ * have to wait for the simulator to start listening.
+ *
+ * This has to happen in the first resolve step: since the type changes, VS
+ * Code then resolves the result as a debugpy configuration, running debugpy's
+ * own resolvers and substituting variables (including in `args`).
+ */
+async function resolveRobotPyDebugConfiguration(
+    folder: vscode.WorkspaceFolder | undefined,
+    config: RobotPyDebugConfiguration,
+): Promise<RobotPyAttachConfiguration | undefined> {
+    await extensionInitialized;
+
+    if (!vscode.extensions.getExtension(DEBUGPY_EXTENSION_ID)) {
+        vscode.window.showErrorMessage("Debugging the simulator requires the Python Debugger extension.", "Install")
+            .then(action => {
+                if (action === "Install") {
+                    vscode.commands.executeCommand("workbench.extensions.installExtension", DEBUGPY_EXTENSION_ID);
+                }
+            });
+        return undefined;
+    }
+
+    const rootPath = folder ? folder.uri.fsPath : await pickRootPath();
+    if (!rootPath) {
+        return undefined;
+    }
+
+    await saveCurrentFile();
+    if (!await ensureRobotPyReady(rootPath) || !await ensureDebugpy(rootPath)) {
+        return undefined;
+    }
+
+    const port = await getFreePort();
+    return {
+        type: "debugpy",
+        request: "attach",
+        name: config.name || defaultDebugConfiguration().name,
+        listen: { host: "127.0.0.1", port },
+        justMyCode: config.justMyCode ?? true,
+        robotpySim: { rootPath, args: config.args ?? [] },
+    };
+}
+
+/**
+ * Makes sure debugpy is installed in the venv, offering to install it if not.
+ */
+async function ensureDebugpy(rootPath: string): Promise<boolean> {
+    try {
+        await execFancy(getVenvPythonPath(rootPath), ["-c", "import debugpy"], { cwd: rootPath, silent: true });
+        return true;
+    } catch (e) {
+        outputChannel.appendLine(`Expected (?) error when checking for debugpy in venv: ${e}`);
+    }
+
+    const userWantsToInstall = await new Promise<boolean>(res => {
+        vscode.window.showInformationMessage("Debugging requires the debugpy package in your virtual environment. Would you like to install it?", "Yes", "No")
+            .then(action => res(action === "Yes"));
+    });
+    if (!userWantsToInstall) {
+        return false;
+    }
+
+    try {
+        await execFancy(getVenvPipPath(rootPath), ["install", "debugpy"], {
+            cwd: rootPath,
+            showTerminal: true,
+            kind: "setup",
+        });
+        return true;
+    } catch (e) {
+        vscode.window.showErrorMessage("Failed to install debugpy. See the output log for details.");
+        outputChannel.appendLine(`ERROR: ${e}`);
+        outputChannel.show();
+        return false;
+    }
+}
+
+function getFreePort(): Promise<number> {
+    return new Promise<number>((res, rej) => {
+        const server = net.createServer();
+        server.on("error", rej);
+        server.listen(0, "127.0.0.1", () => {
+            const port = (server.address() as net.AddressInfo).port;
+            server.close(() => res(port));
+        });
+    });
+}
+
+function onDebugSessionStarted(session: vscode.DebugSession) {
+    const config = session.configuration as RobotPyAttachConfiguration;
+    if (!config.robotpySim) {
+        return;
+    }
+
+    const { rootPath, args } = config.robotpySim;
+    simDebugSessions.set(rootPath, session);
+    const errorWatcher = watchOutputForErrors(rootPath, "sim");
+    execFancy(getVenvPythonPath(rootPath), [
+        "-m", "debugpy", "--connect", `${config.listen.host}:${config.listen.port}`,
+        "-m", "robotpy", "sim", ...args,
+    ], {
+        cwd: rootPath,
+        showTerminal: true,
+        prettyName: DEBUG_SIM_PRETTY_NAME,
+        kind: "sim",
+        onData: errorWatcher.onData,
+    }).catch(e => {
+        outputChannel.appendLine(`Simulator under debugger did not exit cleanly: ${e}`);
+    }).finally(() => {
+        errorWatcher.finish();
+        // If the simulator goes away, the debug session has nothing left to
+        // debug.
+        vscode.debug.stopDebugging(session);
+    });
+}
+
+function onDebugSessionTerminated(session: vscode.DebugSession) {
+    const config = session.configuration as RobotPyAttachConfiguration;
+    // After a restart, the project's simulator belongs to the new session.
+    if (config.robotpySim && simDebugSessions.get(config.robotpySim.rootPath) === session) {
+        simDebugSessions.delete(config.robotpySim.rootPath);
+        outputChannel.appendLine("Debug session ended; stopping the simulator.");
+        stopSessions(s => s.prettyName === DEBUG_SIM_PRETTY_NAME && s.rootPath === config.robotpySim?.rootPath);
+    }
+}
+
+// ============================================================================
+// Diagnostics from command output
+
+/** Only the most recent output is parsed, so a long sim does not grow forever. */
+const MAX_ERROR_OUTPUT_LENGTH = 1024 * 1024;
+
+interface OutputErrorWatcher {
+    onData: (data: string, stream: "stdout" | "stderr") => void,
+    finish: () => void,
+}
+
+/**
+ * The diagnostics from the latest run of each kind of command in each
+ * project, keyed by `kind:rootPath` and then by file. Commands run side by
+ * side, so each only replaces its own diagnostics.
+ */
+const outputDiagnostics = new Map<string, Map<string, vscode.Diagnostic[]>>();
+
+function setOutputDiagnostics(key: string, diagnosticsByFile: Map<string, vscode.Diagnostic[]>) {
+    const files = new Set([...outputDiagnostics.get(key)?.keys() ?? [], ...diagnosticsByFile.keys()]);
+    outputDiagnostics.set(key, diagnosticsByFile);
+    for (const file of files) {
+        const diagnostics = [...outputDiagnostics.values()].flatMap(byFile => byFile.get(file) ?? []);
+        if (diagnostics.length > 0) {
+            diagnosticCollection?.set(vscode.Uri.file(file), diagnostics);
+        } else {
+            diagnosticCollection?.delete(vscode.Uri.file(file));
+        }
+    }
+}
+
+/**
+ * Watches the output of a RobotPy command for Python tracebacks and pytest
+ * failures, and reports them as diagnostics on the workspace files they point
+ * to. Diagnostics from the previous run of the same kind of command in the
+ * project are cleared immediately; those from other commands are left alone.
+ *
+ * Errors are reported while the command is still running (e.g. a crash during
+ * sim) and once more when `finish` is called.
+ */
+function watchOutputForErrors(rootPath: string, kind: ProcessKind): OutputErrorWatcher {
+    const key = `${kind}:${rootPath}`;
+    setOutputDiagnostics(key, new Map());
+
+    const output = { stdout: "", stderr: "" };
+    let timer: NodeJS.Timeout | undefined;
+
+    function update() {
+        timer = undefined;
+        const errors = [...parsePythonErrors(output.stderr), ...parsePythonErrors(output.stdout)];
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+        for (const error of errors) {
+            const result = errorToDiagnostic(rootPath, error);
+            if (result) {
+                diagnosticsByFile.set(result[0], [...(diagnosticsByFile.get(result[0]) ?? []), result[1]]);
+            }
+        }
+
+        setOutputDiagnostics(key, diagnosticsByFile);
+    }
+
+    return {
+        onData(data, stream) {
+            output[stream] = (output[stream] + data).slice(-MAX_ERROR_OUTPUT_LENGTH);
+            if (!timer) {
+                timer = setTimeout(update, 500);
+            }
+        },
+        finish() {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            update();
+        },
+    };
+}
+
+/**
+ * Is `file` inside `dir`? On Windows, a file on another drive has no relative
+ * path, so `path.relative` gives back an absolute one.
+ */
+function isPathInside(dir: string, file: string): boolean {
+    const relative = path.relative(dir, file);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Converts an error into a diagnostic on the innermost frame that is in the
+ * user's own code, i.e. in the workspace but not the venv. Errors that never
+ * touch the user's code are ignored.
+ */
+function errorToDiagnostic(rootPath: string, error: ParsedError): [string, vscode.Diagnostic] | undefined {
+    const frames = error.frames.map(frame => ({ ...frame, file: resolveFramePath(rootPath, frame.file) }));
+    const venvPath = getVenvPath(rootPath);
+    const userFrame = [...frames].reverse().find(frame =>
+        fs.existsSync(frame.file)
+        && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(frame.file))
+        && !isPathInside(venvPath, frame.file)
+        && !frame.file.includes("site-packages"));
+    if (!userFrame) {
+        return undefined;
+    }
+
+    const diagnostic = new vscode.Diagnostic(lineRange(userFrame.file, userFrame.line - 1), error.message, vscode.DiagnosticSeverity.Error);
+    diagnostic.source = "RobotPy";
+    diagnostic.relatedInformation = frames.map(frame => new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(vscode.Uri.file(frame.file), new vscode.Position(Math.max(frame.line - 1, 0), 0)),
+        frame.func ? `in ${frame.func}` : `${path.basename(frame.file)}:${frame.line}`,
+    ));
+    return [userFrame.file, diagnostic];
+}
+
+/**
+ * Resolves a path printed by Python or pytest. Relative paths may be relative
+ * to the project or, for pytest, to the tests folder.
+ */
+function resolveFramePath(rootPath: string, file: string): string {
+    if (path.isAbsolute(file)) {
+        return path.normalize(file);
+    }
+    const candidates = [path.resolve(rootPath, file), path.resolve(rootPath, TESTS_DIR, file)];
+    return candidates.find(c => fs.existsSync(c)) ?? candidates[0];
+}
+
+/** The range of a line's text, not counting indentation. */
+function lineRange(file: string, line: number): vscode.Range {
+    try {
+        const text = fs.readFileSync(file, "utf8").split(/\r?\n/)[line] ?? "";
+        const start = text.length - text.trimStart().length;
+        return new vscode.Range(line, start, line, Math.max(text.trimEnd().length, start));
+    } catch (e) {
+        return new vscode.Range(line, 0, line, 0);
+    }
+}
+
+// ============================================================================
+// Environment status and report
+
+/**
+ * Finds the RobotPy project whose status should be shown: the project of the
+ * active editor, or else the first project in the workspace.
+ */
+function getStatusProjectRootPath(): string | undefined {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+    if (activeFolder && projectChecks.has(activeFolder.uri.fsPath)) {
+        return activeFolder.uri.fsPath;
+    }
+    return projectChecks.keys().next().value;
+}
+
+interface EnvironmentSummary {
+    text: string,
+    tooltip: string,
+    isError: boolean,
+}
+
+function summarizeEnvironment(checks: EnvironmentChecks): EnvironmentSummary {
+    if (checks.isVenvReady) {
+        const version = checks.robotpyVersion ? ` ${checks.robotpyVersion}` : "";
+        return { text: `$(check) RobotPy${version}`, tooltip: `RobotPy${version} is ready.`, isError: false };
+    }
+    if ((!checks.hasVenvFolder || !checks.isVenvPythonNewEnough) && checks.environmentManager === "uv") {
+        if (!checks.uvCommand) {
+            return { text: "$(error) RobotPy: No uv", tooltip: "robotpy.environmentManager is set to uv, but uv is not installed.", isError: true };
+        }
+        return checks.hasVenvFolder
+            ? { text: "$(warning) RobotPy: Old venv", tooltip: "The virtual environment's Python is too old, and needs to be recreated.", isError: false }
+            : { text: "$(warning) RobotPy: No venv", tooltip: "The virtual environment has not been created yet.", isError: false };
+    }
+    if (!checks.hasVenvFolder || !checks.isVenvPythonNewEnough) {
+        if (!checks.hasSystemPython) {
+            return { text: "$(error) RobotPy: No Python", tooltip: "Python is not installed on your system.", isError: true };
+        }
+        if (!checks.isSystemPythonNewEnough || checks.hasVenvFolder) {
+            return { text: "$(error) RobotPy: Python too old", tooltip: "The installed version of Python is too old for RobotPy.", isError: true };
+        }
+        return { text: "$(warning) RobotPy: No venv", tooltip: "The virtual environment has not been created yet.", isError: false };
+    }
+    return { text: "$(warning) RobotPy: Not installed", tooltip: "RobotPy is not installed in the virtual environment.", isError: false };
+}
+
+function updateStatusBar() {
+    if (!statusBarItem) {
+        return;
+    }
+
+    const rootPath = getStatusProjectRootPath();
+    const checks = rootPath && projectChecks.get(rootPath);
+    if (!rootPath || !checks) {
+        statusBarItem.hide();
+        return;
+    }
+
+    const summary = summarizeEnvironment(checks);
+    const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    statusBarItem.text = summary.text;
+    statusBarItem.tooltip = `${isMultiRoot ? `${path.basename(rootPath)}: ` : ""}${summary.tooltip} Click for details.`;
+    statusBarItem.backgroundColor = summary.isError ? new vscode.ThemeColor("statusBarItem.errorBackground") : undefined;
+    statusBarItem.command = {
+        title: "RobotPy: Check Environment",
+        command: "robotpy.checkEnvironment",
+        arguments: [rootPath],
+    };
+    statusBarItem.show();
+}
+
+interface EnvironmentReportItem {
+    label: string,
+    /** Undefined if the check was skipped because an earlier one failed. */
+    ok: boolean | undefined,
+    detail: string,
+    fix?: { label: string, run: () => Promise<unknown> },
+}
+
+function openDocs(): Promise<boolean> {
+    return Promise.resolve(vscode.env.openExternal(vscode.Uri.parse(ROBOTPY_DOCS_URL)));
+}
+
+function describeEnvironmentChecks(rootPath: string, checks: EnvironmentChecks): EnvironmentReportItem[] {
+    const minVersion = getSettings(rootPath).pythonMinVersion.join(".");
+    const fixVenv = { label: "Set up virtual environment", run: () => ensureVenv(rootPath, checks) };
+
+    const items: EnvironmentReportItem[] = [
+        {
+            label: "RobotPy project",
+            ok: checks.hasRobotPyProjectFile,
+            detail: checks.hasRobotPyProjectFile
+                ? "pyproject.toml has a [tool.robotpy] section."
+                : "No pyproject.toml with a [tool.robotpy] section was found.",
+            fix: { label: "Run RobotPy: Init Project", run: () => Promise.resolve(vscode.commands.executeCommand("robotpy.init")) },
+        },
+        ...(checks.environmentManager === "uv" ? describeUvChecks(checks, minVersion) : [
+            {
+                label: "Python installed",
+                ok: checks.hasSystemPython,
+                detail: checks.systemPythonCommand
+                    ? `Found Python ${checks.systemPythonCommand.fullVersionStr} (${checks.systemPythonCommand.executable}).`
+                    : "Python was not found on your system.",
+                fix: { label: "Open install instructions", run: openDocs },
+            },
+            {
+                label: `Python ${minVersion} or newer`,
+                ok: checks.hasSystemPython ? checks.isSystemPythonNewEnough : undefined,
+                detail: checks.systemPythonCommand
+                    ? `Python ${checks.systemPythonCommand.versionStr} is ${checks.isSystemPythonNewEnough ? "new enough" : "too old"}.`
+                    : "Skipped because Python is not installed.",
+                fix: { label: "Select another Python", run: () => selectBasePythonCommand(rootPath) },
+            },
+            {
+                label: "Python venv module",
+                ok: checks.isSystemPythonNewEnough ? checks.hasSystemPythonVenvModule : undefined,
+                detail: checks.isSystemPythonNewEnough
+                    ? (checks.hasSystemPythonVenvModule ? "The venv module is available." : "Your Python installation does not include the venv module. Installing uv also fixes this.")
+                    : "Skipped because there is no suitable Python.",
+                fix: { label: "Open install instructions", run: openDocs },
+            },
+        ]),
+        {
+            label: "Virtual environment",
+            ok: checks.hasVenvFolder,
+            detail: checks.hasVenvFolder
+                ? `Found at ${getVenvPath(rootPath)}.`
+                : `No virtual environment at ${getVenvPath(rootPath)}.`,
+            fix: fixVenv,
+        },
+        {
+            label: `Virtual environment Python ${minVersion} or newer`,
+            ok: checks.hasVenvFolder ? checks.isVenvPythonNewEnough : undefined,
+            detail: checks.venvPythonCommand
+                ? `The virtual environment uses Python ${checks.venvPythonCommand.versionStr}.`
+                : (checks.hasVenvFolder ? "Python was not found in the virtual environment." : "Skipped because there is no virtual environment."),
+            fix: fixVenv,
+        },
+        {
+            label: "RobotPy installed",
+            ok: checks.isVenvPythonNewEnough ? checks.isVenvReady : undefined,
+            detail: checks.isVenvReady
+                ? `RobotPy ${checks.robotpyVersion ?? "(unknown version)"} is installed.`
+                : (checks.isVenvPythonNewEnough ? "RobotPy is not installed in the virtual environment." : "Skipped because the virtual environment is not usable."),
+            fix: fixVenv,
+        },
+    ];
+
+    if (isWindows()) {
+        items.push({
+            label: "PowerShell execution policy",
+            ok: checks.winExecutionPolicyOk,
+            detail: checks.winExecutionPolicyOk
+                ? "PowerShell allows virtual environments to be activated."
+                : "PowerShell will not allow virtual environments to be activated.",
+            fix: {
+                label: "Show how to fix",
+                run: async () => {
+                    await vscode.env.clipboard.writeText("Set-ExecutionPolicy RemoteSigned");
+                    await vscode.window.showInformationMessage(
+                        "Open a PowerShell window as Administrator and run the command \"Set-ExecutionPolicy RemoteSigned\", which has been copied to your clipboard.",
+                        { modal: true },
+                    );
+                },
+            },
+        });
+    }
+
+    return items;
+}
+
+/**
+ * With uv, a system Python is nice to have but not needed, since uv can
+ * download one.
+ */
+function describeUvChecks(checks: EnvironmentChecks, minVersion: string): EnvironmentReportItem[] {
+    const systemPy = checks.systemPythonCommand;
+    return [
+        {
+            label: "uv installed",
+            ok: checks.uvCommand !== null,
+            detail: checks.uvCommand
+                ? `Using uv (${checks.uvCommand}) to create the virtual environment and install packages.`
+                : "robotpy.environmentManager is set to uv, but uv was not found.",
+            fix: { label: "Open uv install instructions", run: () => Promise.resolve(vscode.env.openExternal(vscode.Uri.parse(UV_DOCS_URL))) },
+        },
+        {
+            label: `Python ${minVersion} or newer`,
+            ok: checks.isSystemPythonNewEnough ? true : undefined,
+            detail: systemPy && checks.isSystemPythonNewEnough
+                ? `Found Python ${systemPy.fullVersionStr} (${systemPy.executable}).`
+                : `No suitable Python was found on your system, so uv will find or download Python ${minVersion} or newer.`,
+        },
+    ];
+}
+
+/**
+ * Re-runs the environment checks and shows each result in a quick pick.
+ * Failed checks have a button (and can be selected) to fix them.
+ */
+async function showEnvironmentReport(rootPath?: string) {
+    await extensionInitialized;
+
+    rootPath = rootPath ?? await pickRootPath(false);
+    if (!rootPath) {
+        return;
+    }
+    const projectRootPath = rootPath;
+
+    const [checks, didError] = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: "Checking RobotPy environment",
+    }, async () => {
+        // The user may have just installed Python, so look for it again.
+        await discoverPythons(projectRootPath, true);
+        return await checkEnvironment(projectRootPath);
+    });
+
+    const items = describeEnvironmentChecks(projectRootPath, checks);
+    outputChannel.appendLine(`Environment report for ${projectRootPath}:`);
+    for (const item of items) {
+        const status = item.ok === undefined ? "SKIPPED" : item.ok ? "OK" : "FAILED";
+        outputChannel.appendLine(` [${status}] ${item.label}: ${item.detail}`);
+    }
+
+    const fixButton = { iconPath: new vscode.ThemeIcon("wrench"), tooltip: "Fix" };
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { report: EnvironmentReportItem }>();
+    quickPick.title = `RobotPy Environment: ${summarizeEnvironment(checks).tooltip}`;
+    quickPick.placeholder = didError
+        ? "Some checks could not be run. See the output log for details."
+        : "Select a failed check to fix it.";
+    quickPick.items = items.map(item => ({
+        label: `${item.ok === undefined ? "$(circle-slash)" : item.ok ? "$(pass)" : "$(error)"} ${item.label}`,
+        detail: item.detail,
+        buttons: item.ok === false && item.fix ? [{ ...fixButton, tooltip: item.fix.label }] : [],
+        report: item,
+    }));
+
+    const chosen = await new Promise<EnvironmentReportItem | undefined>(res => {
+        quickPick.onDidTriggerItemButton(e => res(e.item.report));
+        quickPick.onDidAccept(() => res(quickPick.selectedItems[0]?.report));
+        quickPick.onDidHide(() => res(undefined));
+        quickPick.show();
+    });
+    quickPick.dispose();
+
+    if (chosen?.ok === false && chosen.fix) {
+        outputChannel.appendLine(`Fixing environment check: ${chosen.label}`);
+        await chosen.fix.run();
+        await checkEnvironment(projectRootPath);
+    }
+}
+
+/**
+ * Lets the user choose which of the installed Pythons to create the venv
+ * with, and offers to recreate the venv if it uses a different one.
+ */
+async function selectBasePythonCommand(rootPath?: string) {
+    await extensionInitialized;
+    rootPath = rootPath ?? await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+    const projectRootPath = rootPath;
+
+    const pythons = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: "Looking for Python interpreters",
+    }, () => discoverPythons(projectRootPath, true));
+
+    const selected = getSelectedBasePython(projectRootPath);
+    const minVersion = getSettings(projectRootPath).pythonMinVersion.join(".");
+    type PythonItem = vscode.QuickPickItem & { python?: PythonCommand, browse?: boolean };
+    const items: PythonItem[] = [
+        {
+            label: "Automatic",
+            description: selected ? undefined : "Selected",
+            detail: `The newest Python ${minVersion} or newer`,
+        },
+        ...pythons.map(python => {
+            const newEnough = isPythonNewEnough(python.version, projectRootPath);
+            return {
+                label: `${newEnough ? "" : "$(warning) "}Python ${python.fullVersionStr}`,
+                description: python.executable === selected ? "Selected" : undefined,
+                detail: newEnough ? python.executable : `${python.executable} (too old; RobotPy needs Python ${minVersion} or newer)`,
+                python,
+            };
+        }),
+        { label: "$(folder) Enter interpreter path...", browse: true },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+        title: "Select Base Python",
+        placeHolder: "Select the Python to create the virtual environment with",
+        matchOnDetail: true,
+    });
+    if (!picked) {
+        return;
+    }
+
+    let python = picked.python;
+    if (picked.browse) {
+        const file = await vscode.window.showOpenDialog({
+            title: "Select a Python interpreter",
+            canSelectFiles: true,
+            canSelectFolders: false,
+            canSelectMany: false,
+            filters: isWindows() ? { "Python": ["exe"] } : undefined,
+        });
+        if (!file || file.length === 0) {
+            return;
+        }
+        python = await probePython([file[0].fsPath]) ?? undefined;
+        if (!python) {
+            vscode.window.showErrorMessage(`${file[0].fsPath} does not seem to be a working Python interpreter. See the output log for details.`);
+            return;
+        }
+    }
+    if (python && !isPythonNewEnough(python.version, projectRootPath)) {
+        vscode.window.showErrorMessage(`Python ${python.fullVersionStr} is too old for RobotPy, which needs Python ${minVersion} or newer.`);
+        return;
+    }
+
+    await setSelectedBasePython(projectRootPath, python?.executable);
+    outputChannel.appendLine(`Base Python for ${projectRootPath}: ${python?.executable ?? "automatic"}`);
+
+    const [checks] = await checkEnvironment(projectRootPath);
+    const base = checks.systemPythonCommand;
+    const venvPython = checks.venvPythonCommand;
+    if (!base || !venvPython || venvPython.fullVersionStr === base.fullVersionStr) {
+        return;
+    }
+    const action = await vscode.window.showInformationMessage(
+        `The virtual environment uses Python ${venvPython.fullVersionStr}. Recreate it with Python ${base.fullVersionStr}?`,
+        "Recreate", "Not Now",
+    );
+    if (action !== "Recreate" || !await stopConflictingSessions("setup", projectRootPath, "recreate the virtual environment")) {
+        return;
+    }
+
+    outputChannel.appendLine("Deleting existing virtual environment...");
+    fs.rmSync(getVenvPath(projectRootPath), { recursive: true, force: true });
+    const [freshChecks] = await checkEnvironment(projectRootPath);
+    if (!checkSystemPython(freshChecks)) {
+        return;
+    }
+    try {
+        if (!await setUpVenv(projectRootPath, freshChecks)) {
+            return;
+        }
+    } catch (e) {
+        vscode.window.showErrorMessage("Failed to recreate the virtual environment. See the output log for details.");
+        outputChannel.appendLine(`ERROR: ${e}`);
+        outputChannel.show();
+        return;
+    }
+    await syncProject(projectRootPath);
+}
+
+// ============================================================================
+// Collect diagnostics
+
+/** How much of the output log to keep for the diagnostics report. */
+const MAX_RECENT_OUTPUT = 100_000;
+let recentOutput = "";
+
+/** Wraps the output channel so that the diagnostics report can include what it showed. */
+function recordOutput(channel: vscode.OutputChannel): vscode.OutputChannel {
+    const record = (value: string) => {
+        recentOutput = (recentOutput + value).slice(-MAX_RECENT_OUTPUT);
+    };
+    return {
+        name: channel.name,
+        append(value) {
+            record(value);
+            channel.append(value);
+        },
+        appendLine(value) {
+            record(value + "\n");
+            channel.appendLine(value);
+        },
+        replace(value) {
+            recentOutput = "";
+            record(value);
+            channel.replace(value);
+        },
+        clear() {
+            recentOutput = "";
+            channel.clear();
+        },
+        show(columnOrPreserveFocus?: vscode.ViewColumn | boolean, preserveFocus?: boolean) {
+            if (typeof columnOrPreserveFocus === "boolean") {
+                channel.show(columnOrPreserveFocus);
+            } else {
+                channel.show(columnOrPreserveFocus, preserveFocus);
+            }
+        },
+        hide: () => channel.hide(),
+        dispose: () => channel.dispose(),
+    };
+}
+
+function readRobotPySectionText(rootPath: string): string | undefined {
+    try {
+        const content = fs.readFileSync(path.join(rootPath, "pyproject.toml"), "utf8");
+        const section = findRobotPySection(content);
+        // Include the header, which is the line before the section.
+        return section && content.split(/\r?\n/).slice(section.start - 1, section.end).join("\n").trimEnd();
+    } catch (e) {
+        return undefined;
+    }
+}
+
+async function collectDiagnostics(rootPath: string): Promise<DiagnosticsReport> {
+    await discoverPythons(rootPath, true);
+    const [checks] = await checkEnvironment(rootPath);
+    const pythons = await discoverPythons(rootPath);
+
+    let pipList: string;
+    try {
+        const { stdout } = await execFancy(getVenvPythonPath(rootPath), ["-m", "pip", "list"], { cwd: rootPath, silent: true });
+        pipList = stdout;
+    } catch (e) {
+        pipList = `Could not run pip list: ${e}`;
+    }
+
+    const pythonExtension = vscode.extensions.getExtension("ms-python.python");
+    return {
+        generated: new Date().toISOString(),
+        system: {
+            os: `${os.type()} ${os.release()} (${process.platform} ${os.arch()})`,
+            vscode: vscode.version,
+            extension: extensionContext.extension.packageJSON.version,
+            pythonExtension: pythonExtension?.packageJSON.version,
+            remote: vscode.env.remoteName,
+        },
+        rootPath,
+        checks,
+        settings: getSettings(rootPath),
+        pythons: pythons.map(p => ({ executable: p.executable, version: p.fullVersionStr, command: [p.cmd, ...p.args].join(" ") })),
+        pythonErrors: [...pythonProbeErrors].map(([candidate, error]) => ({ candidate, error })),
+        pipList,
+        robotpySection: readRobotPySectionText(rootPath),
+        recentLog: recentOutput,
+    };
+}
+
+/**
+ * Gathers everything about the project's setup into one report, with paths
+ * in the user's home folder shortened to `~`, and lets the user open, copy or
+ * save it to send to a mentor.
+ */
+async function collectDiagnosticsCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath(false);
+    if (!rootPath) {
+        return;
+    }
+
+    const report = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: "Collecting RobotPy diagnostics",
+    }, () => collectDiagnostics(rootPath));
+    const home = os.homedir();
+    const markdown = redactHomePaths(formatDiagnosticsMarkdown(report), home);
+
+    const action = await vscode.window.showInformationMessage(
+        "The diagnostics report is ready. Paths in your home folder are shown as ~.",
+        "Open", "Copy to Clipboard", "Save As...",
+    );
+    if (action === "Open") {
+        const doc = await vscode.workspace.openTextDocument({ content: markdown, language: "markdown" });
+        await vscode.window.showTextDocument(doc);
+    } else if (action === "Copy to Clipboard") {
+        await vscode.env.clipboard.writeText(markdown);
+        vscode.window.showInformationMessage("Copied the diagnostics report to the clipboard.");
+    } else if (action === "Save As...") {
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(rootPath, "robotpy-diagnostics.md")),
+            filters: { "Markdown": ["md"], "JSON": ["json"] },
+        });
+        if (!uri) {
+            return;
+        }
+        const content = uri.fsPath.endsWith(".json")
+            ? redactHomePaths(JSON.stringify(report, null, 2), home) + "\n"
+            : markdown;
+        fs.writeFileSync(uri.fsPath, content);
+        outputChannel.appendLine(`Saved diagnostics report: ${uri.fsPath}`);
+    }
+}
+
+// ============================================================================
+// Sidebar
+
+/** A node in one of the sidebar's trees. They are small, so children are made up front. */
+interface SidebarNode {
+    item: vscode.TreeItem,
+    children?: SidebarNode[],
+    /** For actions: the processes that the stop button stops. */
+    session?: { rootPath: string, kind: ProcessKind },
+}
+
+type SidebarAction = "sync" | "sim" | "deploy" | "test" | "init";
+
+const SIDEBAR_ACTIONS: { action: SidebarAction, label: string, icon: string }[] = [
+    { action: "sync", label: "Sync", icon: "sync" },
+    { action: "sim", label: "Simulate", icon: "vm" },
+    { action: "deploy", label: "Deploy", icon: "robot" },
+    { action: "test", label: "Run Tests", icon: "beaker" },
+    { action: "init", label: "Init Project", icon: "new-folder" },
+];
+
+const sidebarRefreshers: (() => void)[] = [];
+
+function refreshSidebar() {
+    sidebarRefreshers.forEach(refresh => refresh());
+}
+
+/**
+ * Makes the provider for one of the sidebar's trees. With one RobotPy project
+ * in the workspace its nodes are shown directly; with several, each project
+ * gets its own folder.
+ */
+/**
+ * Makes one of the sidebar's views. By default it lists the RobotPy projects
+ * in the workspace; `listRoots` can list other folders instead.
+ */
+function createSidebarTree(
+    describe: (rootPath: string) => SidebarNode[],
+    listRoots: () => string[] = () => [...projectChecks.keys()],
+): vscode.TreeDataProvider<SidebarNode> {
+    const changeEmitter = new vscode.EventEmitter<void>();
+    sidebarRefreshers.push(() => changeEmitter.fire());
+    return {
+        onDidChangeTreeData: changeEmitter.event,
+        getTreeItem: node => node.item,
+        getChildren(node) {
+            if (node) {
+                return node.children ?? [];
+            }
+            const rootPaths = listRoots();
+            if (rootPaths.length === 1) {
+                return describe(rootPaths[0]);
+            }
+            return rootPaths.map(rootPath => {
+                const item = new vscode.TreeItem(path.basename(rootPath), vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = vscode.ThemeIcon.Folder;
+                item.tooltip = rootPath;
+                return { item, children: describe(rootPath) };
+            });
+        },
+    };
+}
+
+function describeEnvironmentNodes(rootPath: string): SidebarNode[] {
+    const checks = projectChecks.get(rootPath);
+    if (!checks) {
+        return [];
+    }
+    const showReport = { title: "RobotPy: Check Environment", command: "robotpy.checkEnvironment", arguments: [rootPath] };
+    const summary = summarizeEnvironment(checks);
+    const summaryItem = new vscode.TreeItem(summary.text.replace(/^\$\([\w-]+\)\s*/, ""));
+    summaryItem.iconPath = new vscode.ThemeIcon(checks.isVenvReady ? "check" : summary.isError ? "error" : "warning");
+    summaryItem.tooltip = summary.tooltip;
+    summaryItem.command = showReport;
+
+    const checkNodes = describeEnvironmentChecks(rootPath, checks).map(check => {
+        const item = new vscode.TreeItem(check.label);
+        item.iconPath = check.ok === undefined
+            ? new vscode.ThemeIcon("circle-slash")
+            : check.ok
+                ? new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"))
+                : new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+        item.tooltip = check.detail;
+        // Failed checks can be fixed from the report.
+        item.command = showReport;
+        return { item };
+    });
+    return [{ item: summaryItem }, ...checkNodes];
+}
+
+function describeActionNodes(rootPath: string): SidebarNode[] {
+    // A folder that is not a RobotPy project yet can only be initialised.
+    const actions = projectChecks.has(rootPath) ? SIDEBAR_ACTIONS : SIDEBAR_ACTIONS.filter(a => a.action === "init");
+    return actions.map(({ action, label, icon }) => {
+        const running = [...processSessions].some(s => s.rootPath === rootPath && s.kind === action);
+        const item = new vscode.TreeItem(label);
+        item.iconPath = new vscode.ThemeIcon(running ? "loading~spin" : icon);
+        item.description = running ? "Running" : undefined;
+        item.contextValue = running ? "runningAction" : "action";
+        item.command = { title: label, command: "robotpy.runSidebarAction", arguments: [rootPath, action] };
+        return { item, session: { rootPath, kind: action } };
+    });
+}
+
+function describeDependencyNodes(rootPath: string): SidebarNode[] {
+    const pyprojectUri = vscode.Uri.file(path.join(rootPath, "pyproject.toml"));
+    const openPyproject = { title: "Open pyproject.toml", command: "vscode.open", arguments: [pyprojectUri] };
+    const config = readRobotPyConfig(rootPath);
+    if (!config) {
+        const item = new vscode.TreeItem("No [tool.robotpy] section in pyproject.toml");
+        item.iconPath = new vscode.ThemeIcon("warning");
+        return [{ item }];
+    }
+
+    const installed = projectChecks.get(rootPath)?.robotpyVersion;
+    const robotpyItem = new vscode.TreeItem("robotpy");
+    robotpyItem.iconPath = new vscode.ThemeIcon("package");
+    robotpyItem.description = [
+        config.robotpyVersion ?? "not pinned",
+        installed && installed !== config.robotpyVersion ? `(${installed} installed)` : undefined,
+    ].filter(part => part !== undefined).join(" ");
+    robotpyItem.command = openPyproject;
+
+    const group = (label: string, values: string[], empty: string): SidebarNode => {
+        const item = new vscode.TreeItem(label, values.length > 0
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.None);
+        item.description = values.length > 0 ? String(values.length) : empty;
+        return {
+            item,
+            children: values.map(value => {
+                const child = new vscode.TreeItem(value);
+                child.iconPath = new vscode.ThemeIcon("package");
+                child.command = openPyproject;
+                return { item: child };
+            }),
+        };
+    };
+    return [
+        { item: robotpyItem },
+        group("Components", config.components, "none"),
+        group("Requires", config.requires, "none"),
+    ];
+}
+
+/** Runs an action from the sidebar in that project, rather than asking which. */
+async function runSidebarAction(rootPath: string, action: SidebarAction) {
+    await extensionInitialized;
+    switch (action) {
+        case "sync":
+            if (await prepareRobotPyCommands(rootPath, ROBOTPY_TASKS.sync.cmds)) {
+                await syncProject(rootPath);
+            }
+            return;
+        case "sim":
+            await runSim(rootPath, getLastSimProfile(rootPath));
+            return;
+        case "deploy":
+            await robotpyCommandsIn(rootPath, getDeployArgs(getLastDeployProfile(rootPath), false));
+            return;
+        case "test":
+            await robotpyCommandsIn(rootPath, ...ROBOTPY_TASKS.test.cmds);
+            return;
+        case "init":
+            await robotpyCommandsIn(rootPath, ["init"]);
+            return;
+    }
+}
+
+function registerSidebar(context: vscode.ExtensionContext) {
+    // The project watchers (see `watchProject`) refresh the dependencies when
+    // pyproject.toml changes.
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider("robotpy.environment", createSidebarTree(describeEnvironmentNodes)),
+        vscode.window.registerTreeDataProvider("robotpy.actions", createSidebarTree(
+            describeActionNodes,
+            () => (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath),
+        )),
+        vscode.window.registerTreeDataProvider("robotpy.dependencies", createSidebarTree(describeDependencyNodes)),
+        vscode.commands.registerCommand("robotpy.runSidebarAction", runSidebarAction),
+        vscode.commands.registerCommand("robotpy.stopSidebarAction", (node?: SidebarNode) => {
+            const session = node?.session;
+            if (session) {
+                stopSessions(s => s.rootPath === session.rootPath && s.kind === session.kind);
+            }
+        }),
+    );
+}
+
+// ============================================================================
+// Deploy profiles
+
+const LAST_DEPLOY_PROFILE_KEY = "robotpy.lastDeployProfile";
+
+/** A saved deploy target, from the `robotpy.deployProfiles` setting. */
+interface DeployProfile {
+    name: string,
+    team?: number,
+    /** A robot hostname or IP address, passed as `--robot`. */
+    robot?: string,
+    /** Show the robot's console (netconsole) after deploying. */
+    netconsole?: boolean,
+    skipTests?: boolean,
+    /** Extra arguments for `robotpy deploy`. */
+    args?: string[],
+}
+
+function getDeployArgs(profile: DeployProfile | undefined, skipTests: boolean): string[] {
+    const args = ["deploy"];
+    if (profile?.team !== undefined) {
+        args.push("--team", String(profile.team));
+    }
+    if (profile?.robot) {
+        args.push("--robot", profile.robot);
+    }
+    if (profile?.netconsole) {
+        args.push("--nc");
+    }
+    if (skipTests || profile?.skipTests) {
+        args.push("--skip-tests");
+    }
+    args.push(...(profile?.args ?? []));
+    return args;
+}
+
+function describeDeployProfile(profile: DeployProfile): string {
+    const parts: string[] = [];
+    if (profile.team !== undefined) {
+        parts.push(`team ${profile.team}`);
+    }
+    if (profile.robot) {
+        parts.push(profile.robot);
+    }
+    if (profile.netconsole) {
+        parts.push("netconsole");
+    }
+    if (profile.skipTests) {
+        parts.push("skip tests");
+    }
+    if (profile.args && profile.args.length > 0) {
+        parts.push(profile.args.join(" "));
+    }
+    return parts.join(" · ");
+}
+
+/**
+ * The name of the last deploy profile used in the project: empty if it was
+ * the default, and undefined if nothing was deployed from the picker yet.
+ */
+function getLastDeployProfileName(rootPath: string): string | undefined {
+    return extensionContext.workspaceState.get<Record<string, string>>(LAST_DEPLOY_PROFILE_KEY, {})[rootPath];
+}
+
+/**
+ * Gets the last deploy profile used in the project. Returns undefined if none
+ * was used, or if it has since been removed from the settings, in which case
+ * we deploy with RobotPy's own defaults.
+ */
+function getLastDeployProfile(rootPath: string): DeployProfile | undefined {
+    const name = getLastDeployProfileName(rootPath);
+    return name ? getSettings(rootPath).deployProfiles.find(p => p.name === name) : undefined;
+}
+
+async function setLastDeployProfile(rootPath: string, profile: DeployProfile | undefined) {
+    const lastUsed = { ...extensionContext.workspaceState.get<Record<string, string>>(LAST_DEPLOY_PROFILE_KEY, {}) };
+    lastUsed[rootPath] = profile?.name ?? "";
+    await extensionContext.workspaceState.update(LAST_DEPLOY_PROFILE_KEY, lastUsed);
+}
+
+/** Deploys to the last-used target. */
+async function deployCommand(skipTests: boolean) {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+
+    const profile = getLastDeployProfile(rootPath);
+    if (profile) {
+        outputChannel.appendLine(`Deploying with profile: ${profile.name}`);
+    }
+    await robotpyCommandsIn(rootPath, getDeployArgs(profile, skipTests));
+}
+
+/** Asks which deploy profile to use, remembers it, and deploys. */
+async function deployWithProfileCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+
+    const profiles = getSettings(rootPath).deployProfiles;
+    const lastUsed = getLastDeployProfileName(rootPath);
+
+    type ProfileItem = vscode.QuickPickItem & { profile?: DeployProfile, edit?: boolean };
+    const items: ProfileItem[] = [
+        {
+            label: "Default",
+            description: lastUsed === "" ? "(last used)" : undefined,
+            detail: "Use the team number from your project's settings.",
+        },
+        ...profiles.map(profile => ({
+            label: profile.name,
+            description: profile.name === lastUsed ? "(last used)" : undefined,
+            detail: describeDeployProfile(profile) || undefined,
+            profile,
+        })),
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        { label: "$(gear) Edit Deploy Profiles...", edit: true },
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: "Select where to deploy" });
+    if (!picked) {
+        return;
+    }
+    if (picked.edit) {
+        await vscode.commands.executeCommand("workbench.action.openSettings", "robotpy.deployProfiles");
+        return;
+    }
+
+    await setLastDeployProfile(rootPath, picked.profile);
+    await robotpyCommandsIn(rootPath, getDeployArgs(picked.profile, false));
+}
+
+// ============================================================================
+// Deploy history
+
+const DEPLOY_HISTORY_KEY = "robotpy.deployHistory";
+const MAX_DEPLOY_HISTORY = 50;
+
+interface GitInfo {
+    commit: string,
+    /** Undefined for a detached HEAD. */
+    branch?: string,
+    /** Files with uncommitted changes, as `git status --porcelain` lists them. */
+    changes: string[],
+}
+
+/** A successful deploy, as stored in workspace state. */
+interface DeployRecord {
+    /** When the deploy finished, in milliseconds since the epoch. */
+    time: number,
+    /** E.g. `team 2175` or `10.21.75.2`. */
+    target: string,
+    /** The deploy profile, if one was used. */
+    profile?: string,
+    commit?: string,
+    branch?: string,
+    /** Were there uncommitted changes? Undefined if the project is not in git. */
+    dirty?: boolean,
+}
+
+/** Reads the project's git state. Resolves to undefined if it is not in a git repository. */
+async function getGitInfo(rootPath: string): Promise<GitInfo | undefined> {
+    try {
+        const { stdout: commit } = await execFancy("git", ["rev-parse", "HEAD"], { cwd: rootPath, silent: true });
+        const { stdout: branch } = await execFancy("git", ["rev-parse", "--abbrev-ref", "HEAD"], { cwd: rootPath, silent: true });
+        const { stdout: status } = await execFancy("git", ["status", "--porcelain", "--", "."], { cwd: rootPath, silent: true });
+        return {
+            commit: commit.trim(),
+            branch: branch.trim() === "HEAD" ? undefined : branch.trim(),
+            changes: status.split(/\r?\n/).filter(line => line.trim() !== ""),
+        };
+    } catch (e) {
+        outputChannel.appendLine(`Expected (?) error when reading git state: ${e}`);
+        return undefined;
+    }
+}
+
+function describeDeployTarget(rootPath: string, deployArgs: readonly string[]): string {
+    const robot = getArgValue(deployArgs, "--robot");
+    if (robot) {
+        return robot;
+    }
+    const team = getArgValue(deployArgs, "--team") ?? readTeamNumber(rootPath);
+    return team !== undefined ? `team ${team}` : "unknown robot";
+}
+
+function getDeployHistory(rootPath: string): DeployRecord[] {
+    return extensionContext.workspaceState.get<Record<string, DeployRecord[]>>(DEPLOY_HISTORY_KEY, {})[rootPath] ?? [];
+}
+
+async function recordDeploy(rootPath: string, deployArgs: readonly string[], profile: DeployProfile | undefined, git: GitInfo | undefined) {
+    const record: DeployRecord = {
+        time: Date.now(),
+        target: describeDeployTarget(rootPath, deployArgs),
+        profile: profile?.name,
+        commit: git?.commit,
+        branch: git?.branch,
+        dirty: git ? git.changes.length > 0 : undefined,
+    };
+    const history = { ...extensionContext.workspaceState.get<Record<string, DeployRecord[]>>(DEPLOY_HISTORY_KEY, {}) };
+    history[rootPath] = [record, ...history[rootPath] ?? []].slice(0, MAX_DEPLOY_HISTORY);
+    await extensionContext.workspaceState.update(DEPLOY_HISTORY_KEY, history);
+    outputChannel.appendLine(`Recorded deploy to ${record.target} of ${record.commit ?? "code not in git"}${record.dirty ? " with uncommitted changes" : ""}`);
+}
+
+/**
+ * Warns before deploying uncommitted changes, since then the deploy history
+ * cannot say exactly what code is on the robot. Resolves to false if the user
+ * decided not to deploy.
+ */
+async function checkUncommittedChanges(rootPath: string): Promise<boolean> {
+    if (!getSettings(rootPath).warnUncommittedDeploy) {
+        return true;
+    }
+    const git = await getGitInfo(rootPath);
+    if (!git || git.changes.length === 0) {
+        return true;
+    }
+
+    const shown = git.changes.slice(0, 10).map(line => line.slice(3));
+    const more = git.changes.length > shown.length ? `\n...and ${git.changes.length - shown.length} more` : "";
+    const action = await vscode.window.showWarningMessage(`You have uncommitted changes in ${git.changes.length} file(s). Deploy anyway?`, {
+        modal: true,
+        detail: `Commit first so that you can tell later exactly what code is on the robot.\n\n${shown.join("\n")}${more}`,
+    }, "Deploy Anyway", "Open Source Control");
+    if (action === "Open Source Control") {
+        await vscode.commands.executeCommand("workbench.view.scm");
+    }
+    return action === "Deploy Anyway";
+}
+
+function describeDeployRecord(record: DeployRecord): vscode.QuickPickItem {
+    const commit = record.commit ? record.commit.slice(0, 8) : "not in git";
+    const branch = record.branch ? ` (${record.branch})` : "";
+    const dirty = record.dirty ? " + uncommitted changes" : "";
+    return {
+        label: `$(git-commit) ${commit}${branch}${dirty}`,
+        description: new Date(record.time).toLocaleString(),
+        detail: `${record.target}${record.profile ? ` · profile ${record.profile}` : ""}`,
+    };
+}
+
+/**
+ * Lists what was deployed from this project, newest first. Choosing an entry
+ * copies its commit hash.
+ */
+async function showDeployHistoryCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+
+    const history = getDeployHistory(rootPath);
+    if (history.length === 0) {
+        vscode.window.showInformationMessage("Nothing has been deployed from this project yet.");
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        history.map(record => ({ ...describeDeployRecord(record), record })),
+        { placeHolder: "Deploys from this project, newest first. Select one to copy its commit hash." },
+    );
+    if (picked?.record.commit) {
+        await vscode.env.clipboard.writeText(picked.record.commit);
+        vscode.window.showInformationMessage(`Copied ${picked.record.commit.slice(0, 8)} to the clipboard.`);
+    }
+}
+
+// ============================================================================
+// Sim profiles
+
+const LAST_SIM_PROFILE_KEY = "robotpy.lastSimProfile";
+
+/** A saved way to launch the simulator, from the `robotpy.simProfiles` setting. */
+interface SimProfile {
+    name: string,
+    /** Run without the simulation GUI (`--nogui`). */
+    nogui?: boolean,
+    /** Serve the WebSocket simulation protocol (`--ws-server`). */
+    wsServer?: boolean,
+    /** Connect to a WebSocket simulation server (`--ws-client`). */
+    wsClient?: boolean,
+    /** Other HAL simulation extensions to enable, e.g. `ds-socket` for `--ds-socket`. */
+    extensions?: string[],
+    /** Environment variables for the simulator. */
+    env?: Record<string, string>,
+    /** Extra arguments for `robotpy sim`. */
+    args?: string[],
+}
+
+function getSimArgs(profile: SimProfile | undefined): string[] {
+    const args = ["sim"];
+    if (profile?.nogui) {
+        args.push("--nogui");
+    }
+    if (profile?.wsServer) {
+        args.push("--ws-server");
+    }
+    if (profile?.wsClient) {
+        args.push("--ws-client");
+    }
+    for (const extension of profile?.extensions ?? []) {
+        args.push(extension.startsWith("--") ? extension : `--${extension}`);
+    }
+    args.push(...(profile?.args ?? []));
+    return args;
+}
+
+function describeSimProfile(profile: SimProfile): string {
+    const parts = getSimArgs(profile).slice(1);
+    for (const [name, value] of Object.entries(profile.env ?? {})) {
+        parts.push(`${name}=${value}`);
+    }
+    return parts.join(" ");
+}
+
+/**
+ * The name of the last sim profile used in the project: empty if it was the
+ * default, and undefined if nothing was simulated from the picker yet.
+ */
+function getLastSimProfileName(rootPath: string): string | undefined {
+    return extensionContext.workspaceState.get<Record<string, string>>(LAST_SIM_PROFILE_KEY, {})[rootPath];
+}
+
+/**
+ * Gets the last sim profile used in the project. Returns undefined if none
+ * was used, or if it has since been removed from the settings.
+ */
+function getLastSimProfile(rootPath: string): SimProfile | undefined {
+    const name = getLastSimProfileName(rootPath);
+    return name ? getSettings(rootPath).simProfiles.find(p => p.name === name) : undefined;
+}
+
+async function setLastSimProfile(rootPath: string, profile: SimProfile | undefined) {
+    const lastUsed = { ...extensionContext.workspaceState.get<Record<string, string>>(LAST_SIM_PROFILE_KEY, {}) };
+    lastUsed[rootPath] = profile?.name ?? "";
+    await extensionContext.workspaceState.update(LAST_SIM_PROFILE_KEY, lastUsed);
+}
+
+async function runSim(rootPath: string, profile: SimProfile | undefined) {
+    const args = getSimArgs(profile);
+    if (!await prepareRobotPyCommands(rootPath, [args])) {
+        return;
+    }
+    if (profile) {
+        outputChannel.appendLine(`Simulating with profile: ${profile.name}`);
+    }
+    await robotpyCommand(rootPath, args, profile?.env);
+}
+
+/** Simulates with the last-used profile. */
+async function simCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+    await runSim(rootPath, getLastSimProfile(rootPath));
+}
+
+/** Asks which sim profile to use (or to make a new one), remembers it, and simulates. */
+async function simWithProfileCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+
+    const profiles = getSettings(rootPath).simProfiles;
+    const lastUsed = getLastSimProfileName(rootPath);
+
+    type ProfileItem = vscode.QuickPickItem & { profile?: SimProfile, create?: boolean, edit?: boolean };
+    const items: ProfileItem[] = [
+        {
+            label: "Default",
+            description: lastUsed === "" ? "(last used)" : undefined,
+            detail: "Run the simulator with its GUI.",
+        },
+        ...profiles.map(profile => ({
+            label: profile.name,
+            description: profile.name === lastUsed ? "(last used)" : undefined,
+            detail: describeSimProfile(profile) || undefined,
+            profile,
+        })),
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        { label: "$(add) New Sim Profile...", create: true },
+        { label: "$(gear) Edit Sim Profiles...", edit: true },
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: "Select how to run the simulator" });
+    if (!picked) {
+        return;
+    }
+    if (picked.edit) {
+        await vscode.commands.executeCommand("workbench.action.openSettings", "robotpy.simProfiles");
+        return;
+    }
+
+    const profile = picked.create ? await createSimProfile(rootPath) : picked.profile;
+    if (picked.create && !profile) {
+        return;
+    }
+    await setLastSimProfile(rootPath, profile);
+    await runSim(rootPath, profile);
+}
+
+/**
+ * Walks the user through the options for a new sim profile and saves it in
+ * the workspace folder's settings. Resolves to undefined if they cancel.
+ */
+async function createSimProfile(rootPath: string): Promise<SimProfile | undefined> {
+    const title = "New Sim Profile";
+    type OptionItem = vscode.QuickPickItem & { option: "nogui" | "wsServer" | "wsClient" };
+    const options = await vscode.window.showQuickPick<OptionItem>([
+        { label: "--nogui", description: "Run without the simulation GUI", option: "nogui" },
+        { label: "--ws-server", description: "Serve the WebSocket simulation protocol, e.g. for a web dashboard", option: "wsServer" },
+        { label: "--ws-client", description: "Connect to a WebSocket simulation server, e.g. a Romi or XRP", option: "wsClient" },
+    ], { title, placeHolder: "Select simulator options (or none)", canPickMany: true });
+    if (!options) {
+        return undefined;
+    }
+
+    const extensions = await vscode.window.showInputBox({
+        title,
+        prompt: "Other HAL simulation extensions to enable, separated by spaces (optional)",
+        placeHolder: "e.g. ds-socket",
+    });
+    if (extensions === undefined) {
+        return undefined;
+    }
+
+    const envText = await vscode.window.showInputBox({
+        title,
+        prompt: "Environment variables for the simulator, as NAME=value separated by spaces (optional)",
+        placeHolder: "e.g. HALSIMWS_HOST=10.0.0.2 HALSIMWS_PORT=3300",
+        validateInput: value => value.trim().split(/\s+/).every(pair => pair === "" || /^[A-Za-z_][A-Za-z0-9_]*=/.test(pair))
+            ? undefined
+            : "Write each variable as NAME=value.",
+    });
+    if (envText === undefined) {
+        return undefined;
+    }
+
+    const existing = getSettings(rootPath).simProfiles;
+    const name = await vscode.window.showInputBox({
+        title,
+        prompt: "A name for the profile",
+        placeHolder: "e.g. Web dashboard",
+        validateInput: value => !value.trim()
+            ? "Enter a name."
+            : existing.some(p => p.name === value.trim()) ? "There is already a profile with that name." : undefined,
+    });
+    if (!name) {
+        return undefined;
+    }
+
+    const profile: SimProfile = { name: name.trim() };
+    for (const item of options) {
+        profile[item.option] = true;
+    }
+    const extensionList = extensions.trim().split(/\s+/).filter(e => e !== "");
+    if (extensionList.length > 0) {
+        profile.extensions = extensionList;
+    }
+    const envPairs = envText.trim().split(/\s+/).filter(pair => pair !== "");
+    if (envPairs.length > 0) {
+        profile.env = Object.fromEntries(envPairs.map(pair => [pair.slice(0, pair.indexOf("=")), pair.slice(pair.indexOf("=") + 1)]));
+    }
+
+    // Save to the folder's own settings, so that the profile is shared with
+    // everyone working on the project.
+    const config = vscode.workspace.getConfiguration("robotpy", vscode.Uri.file(rootPath));
+    const folderProfiles = config.inspect<SimProfile[]>("simProfiles")?.workspaceFolderValue ?? [];
+    await config.update("simProfiles", [...folderProfiles, profile], vscode.ConfigurationTarget.WorkspaceFolder);
+    outputChannel.appendLine(`Saved sim profile: ${profile.name}`);
+    return profile;
+}
+
+/**
+ * Stops the project's simulator, if it is running, and starts it again with
+ * the same profile. A simulator that was being debugged is started under the
+ * debugger again, with the same arguments.
+ */
+async function restartSimCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+
+    const debugSession = simDebugSessions.get(rootPath);
+    // Wait for the old simulator to exit, so that it lets go of its ports.
+    await stopSessions(s => s.kind === "sim" && s.rootPath === rootPath);
+    if (debugSession) {
+        const config = debugSession.configuration as RobotPyAttachConfiguration;
+        await vscode.debug.stopDebugging(debugSession);
+        const restarted: RobotPyDebugConfiguration = {
+            type: ROBOTPY_DEBUG_TYPE,
+            request: "launch",
+            name: config.name,
+            args: config.robotpySim?.args,
+            justMyCode: config.justMyCode,
+        };
+        await vscode.debug.startDebugging(debugSession.workspaceFolder, restarted);
+        return;
+    }
+    await runSim(rootPath, getLastSimProfile(rootPath));
+}
+
+// ============================================================================
+// Robot reachability
+
+const ROBOT_REACHABILITY_TIMEOUT_MS = 2000;
+
+/**
+ * Reads the team number that RobotPy (and the rest of WPILib) uses from
+ * `.wpilib/wpilib_preferences.json`.
+ */
+function readTeamNumber(rootPath: string): number | undefined {
+    try {
+        const prefs = JSON.parse(fs.readFileSync(path.join(rootPath, ".wpilib", "wpilib_preferences.json"), "utf8"));
+        const team = typeof prefs.teamNumber === "string" ? parseInt(prefs.teamNumber, 10) : prefs.teamNumber;
+        return Number.isInteger(team) && team > 0 ? team : undefined;
+    } catch (e) {
+        outputChannel.appendLine(`Expected (?) error when reading team number: ${e}`);
+        return undefined;
+    }
+}
+
+function getArgValue(args: readonly string[], name: string): string | undefined {
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === name) {
+            return args[i + 1];
+        }
+        if (args[i].startsWith(`${name}=`)) {
+            return args[i].slice(name.length + 1);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Works out which addresses `robotpy deploy` with the given arguments would
+ * try. An explicit `--robot` wins; otherwise the team number comes from
+ * `--team` or the project's WPILib preferences.
+ */
+function getDeployHosts(rootPath: string, args: readonly string[]): string[] {
+    const robot = getArgValue(args, "--robot");
+    if (robot) {
+        return [robot];
+    }
+    const teamArg = getArgValue(args, "--team");
+    const team = teamArg !== undefined ? parseInt(teamArg, 10) : readTeamNumber(rootPath);
+    return team !== undefined && !isNaN(team) ? getTeamRobotAddresses(team) : [];
+}
+
+/**
+ * Checks that the robot's SSH port answers before deploying, since otherwise
+ * `robotpy deploy` runs the tests and then hangs or fails with an SSH error.
+ * Resolves to false if the user decided not to deploy.
+ */
+async function checkRobotReachable(rootPath: string, deployArgs: readonly string[]): Promise<boolean> {
+    if (!getSettings(rootPath).checkRobotReachable) {
+        return true;
+    }
+
+    const hosts = getDeployHosts(rootPath, deployArgs);
+    if (hosts.length === 0) {
+        // RobotPy will ask for a team number itself.
+        outputChannel.appendLine("No team number or robot address configured; skipping robot reachability check");
+        return true;
+    }
+
+    while (true) {
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Looking for the robot...",
+        }, () => findReachableAddress(hosts, ROBOT_SSH_PORT, ROBOT_REACHABILITY_TIMEOUT_MS));
+
+        const tried = result.attempts.map(a => `${a.host}:${a.port} (${a.ok ? "ok" : a.error})`);
+        outputChannel.appendLine(`Robot reachability check: ${tried.join(", ")}`);
+        if (result.reachable) {
+            outputChannel.appendLine(`Robot found at ${result.reachable}`);
+            return true;
+        }
+
+        const action = await vscode.window.showWarningMessage("The robot is not reachable. Make sure your computer is connected to the robot's network or plugged in over USB.", {
+            modal: true,
+            detail: `Tried:\n${tried.join("\n")}`,
+        }, "Retry", "Deploy Anyway");
+        if (action === "Retry") {
+            continue;
+        }
+        return action === "Deploy Anyway";
+    }
+}
+
+// ============================================================================
+// Robot console
+
+const ROBOT_CONSOLE_TERMINAL_NAME = "RobotPy: Robot Console";
+const ROBOT_CONSOLE_MAX_HISTORY = 5000;
+
+/**
+ * Works out where the robot is, from the last deploy target or else by asking
+ * for a team number or address.
+ */
+async function getRobotConsoleHosts(rootPath: string): Promise<string[] | undefined> {
+    const hosts = getDeployHosts(rootPath, getDeployArgs(getLastDeployProfile(rootPath), false));
+    if (hosts.length > 0) {
+        return hosts;
+    }
+
+    const answer = await vscode.window.showInputBox({
+        prompt: "Enter your team number or the robot's address",
+        placeHolder: "e.g. 2175 or 10.21.75.2",
+    });
+    if (!answer?.trim()) {
+        return undefined;
+    }
+    return /^\d+$/.test(answer.trim()) ? getTeamRobotAddresses(parseInt(answer.trim(), 10)) : [answer.trim()];
+}
+
+async function showRobotConsoleCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+    const hosts = await getRobotConsoleHosts(rootPath);
+    if (!hosts) {
+        return;
+    }
+
+    // Only one console at a time; the new one may be for a different robot.
+    robotConsoleTerminal?.dispose();
+    robotConsoleTerminal = vscode.window.createTerminal({
+        name: ROBOT_CONSOLE_TERMINAL_NAME,
+        pty: robotConsolePty(hosts),
+    });
+    robotConsoleTerminal.show();
+}
+
+function formatConsoleTime(date: Date): string {
+    const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+const ROBOT_CONSOLE_COLORS: Record<RioLogLevel, string> = {
+    error: "\x1b[31m",
+    warning: "\x1b[33m",
+    print: "",
+};
+
+/**
+ * Creates the pseudoterminal for the robot console. Single keys control it,
+ * since there is no process to send input to.
+ */
+function robotConsolePty(hosts: string[]): vscode.Pseudoterminal {
+    const writeEmitter = new vscode.EventEmitter<string>();
+    const history: { received: Date, message: RioLogMessage }[] = [];
+    const pending: typeof history = [];
+    const shown: Record<RioLogLevel, boolean> = { error: true, warning: true, print: true };
+    let paused = false;
+    let connection: { dispose: () => void } | undefined;
+
+    function write(str: string) {
+        writeEmitter.fire(str.replace(/(?<!\r)\n/g, "\r\n"));
+    }
+
+    function writeStatus(status: string) {
+        write(`\x1b[2m-- ${status} --\x1b[0m\n`);
+    }
+
+    function writeMessage(entry: typeof history[number]) {
+        const { received, message } = entry;
+        if (!shown[message.level]) {
+            return;
+        }
+        const color = ROBOT_CONSOLE_COLORS[message.level];
+        const reset = color ? "\x1b[0m" : "";
+        const prefix = `\x1b[2m[${formatConsoleTime(received)}]\x1b[0m `;
+        let text = message.text.replace(/\n$/, "");
+        if (message.level !== "print") {
+            text = `${message.level === "error" ? "ERROR" : "Warning"}: ${text}`;
+            if (message.location) {
+                text += `\n    at ${message.location}`;
+            }
+            if (message.callStack) {
+                text += `\n${message.callStack.replace(/^/gm, "    ")}`;
+            }
+        }
+        write(`${prefix}${color}${text}${reset}\n`);
+    }
+
+    function writeHelp() {
+        const state = (level: RioLogLevel) => shown[level] ? "on" : "off";
+        writeStatus(`Keys: [p] pause/resume  [c] clear  [e] errors (${state("error")})  [w] warnings (${state("warning")})  [i] prints (${state("print")})`);
+    }
+
+    function redraw() {
+        write("\x1b[2J\x1b[3J\x1b[H");
+        writeHelp();
+        history.forEach(writeMessage);
+    }
+
+    return {
+        onDidWrite: writeEmitter.event,
+        open() {
+            writeHelp();
+            connection = connectRioLog(hosts, {
+                onMessage(message) {
+                    const entry = { received: new Date(), message };
+                    history.push(entry);
+                    if (history.length > ROBOT_CONSOLE_MAX_HISTORY) {
+                        history.shift();
+                    }
+                    if (paused) {
+                        pending.push(entry);
+                    } else {
+                        writeMessage(entry);
+                    }
+                },
+                onStatus(status) {
+                    outputChannel.appendLine(`Robot console: ${status}`);
+                    writeStatus(status);
+                },
+            });
+        },
+        close() {
+            connection?.dispose();
+        },
+        handleInput(data) {
+            switch (data.toLowerCase()) {
+                case "p":
+                    paused = !paused;
+                    writeStatus(paused ? "Paused" : "Resumed");
+                    if (!paused) {
+                        pending.splice(0).forEach(writeMessage);
+                    }
+                    break;
+                case "c":
+                    history.length = 0;
+                    pending.length = 0;
+                    redraw();
+                    break;
+                case "e":
+                    shown.error = !shown.error;
+                    redraw();
+                    break;
+                case "w":
+                    shown.warning = !shown.warning;
+                    redraw();
+                    break;
+                case "i":
+                    shown.print = !shown.print;
+                    redraw();
+                    break;
+            }
+        },
+    };
+}
+
+// ============================================================================
+// Offline mode
+
+function readRobotPyConfig(rootPath: string): RobotPyProjectConfig | undefined {
+    try {
+        return parseRobotPyConfig(fs.readFileSync(path.join(rootPath, "pyproject.toml"), "utf8"));
+    } catch (e) {
+        outputChannel.appendLine(`Failed to read pyproject.toml: ${e}`);
+        return undefined;
+    }
+}
+
+function getOfflineCacheDir(rootPath: string): string {
+    const configured = getSettings(rootPath).offlineCacheDirectory;
+    return configured
+        ? path.resolve(rootPath, configured)
+        : path.join(extensionContext.globalStorageUri.fsPath, "offline-wheels");
+}
+
+function getOfflinePipInstallArgs(rootPath: string, requirements: readonly string[]): string[] {
+    return ["install", "--no-index", "--find-links", getOfflineCacheDir(rootPath), ...requirements];
+}
+
+/**
+ * The offline version of sync: install the project's requirements from the
+ * cache. The project is never updated, and nothing is downloaded for the
+ * roboRIO, since `robotpy deploy` uses what "Prepare for Offline" already
+ * put in RobotPy's own cache.
+ */
+async function offlineSync(rootPath: string) {
+    const config = readRobotPyConfig(rootPath);
+    if (!config) {
+        vscode.window.showErrorMessage("Cannot sync offline: could not read the [tool.robotpy] section of pyproject.toml.");
+        return;
+    }
+
+    outputChannel.appendLine("Offline mode: installing requirements from the offline cache");
+    try {
+        await withSetupProgress(rootPath, "Syncing RobotPy project", 1, async progress => {
+            progress.phase("Installing packages from the offline cache");
+            await execFancy(getVenvPipPath(rootPath), getOfflinePipInstallArgs(rootPath, getLocalRequirements(config)), {
+                cwd: rootPath,
+                showTerminal: true,
+                prettyName: "offline sync",
+                kind: "sync",
+                onData: progress.onData,
+            });
+        });
+    } catch (e) {
+        vscode.window.showErrorMessage("Offline sync failed. Some packages may be missing from the offline cache; run \"RobotPy: Prepare for Offline\" while connected to the internet.");
+        outputChannel.appendLine(`ERROR: ${e}`);
+    }
+}
+
+/**
+ * Downloads everything the project needs so that it can be set up and
+ * deployed without internet: the local wheels go in the offline cache, and
+ * `robotpy sync` downloads Python and the packages for the roboRIO.
+ */
+async function prepareOfflineCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+    if (getSettings(rootPath).offlineMode) {
+        vscode.window.showWarningMessage("Turn off offline mode (robotpy.offlineMode) and connect to the internet before preparing for offline use.");
+        return;
+    }
+    if (!await prepareRobotPyCommands(rootPath, [["sync"]])) {
+        return;
+    }
+
+    const config = readRobotPyConfig(rootPath);
+    if (!config) {
+        vscode.window.showErrorMessage("Cannot prepare for offline use: could not read the [tool.robotpy] section of pyproject.toml.");
+        return;
+    }
+
+    const cacheDir = getOfflineCacheDir(rootPath);
+    try {
+        fs.mkdirSync(cacheDir, { recursive: true });
+        // pip and setuptools come along so that a fresh venv can be set up too.
+        await execFancy(getVenvPipPath(rootPath), ["download", "--dest", cacheDir, "pip", "setuptools", ...getLocalRequirements(config)], {
+            cwd: rootPath,
+            showTerminal: true,
+            prettyName: "download wheels for offline use",
+            kind: "sync",
+        });
+        // Sync downloads the roboRIO's packages into RobotPy's own cache,
+        // which deploying installs from.
+        await robotpyCommand(rootPath, ["sync"]);
+    } catch (e) {
+        vscode.window.showErrorMessage("Failed to download everything for offline use. See the output log for details.");
+        outputChannel.appendLine(`ERROR: ${e}`);
+        return;
+    }
+
+    outputChannel.appendLine(`Offline cache is ready: ${cacheDir}`);
+    const action = await vscode.window.showInformationMessage("Everything is downloaded for offline use. Turn on offline mode for this project now?", "Turn On", "Later");
+    if (action === "Turn On") {
+        await vscode.workspace.getConfiguration("robotpy", vscode.Uri.file(rootPath))
+            .update("offlineMode", true, vscode.ConfigurationTarget.WorkspaceFolder);
+    }
+}
+
+// ============================================================================
+// RobotPy version updates
+
+const PINNED_ROBOTPY_VERSION_KEY = "robotpy.pinnedRobotPyVersion";
+const UPDATE_ROBOTPY_ARGS = ["project", "update-robotpy"];
+
+/** The version a project was pinned at, if the user chose to always keep it. */
+function getPinnedRobotPyVersion(rootPath: string): string | undefined {
+    return extensionContext.workspaceState.get<Record<string, string>>(PINNED_ROBOTPY_VERSION_KEY, {})[rootPath];
+}
+
+async function setPinnedRobotPyVersion(rootPath: string, version: string | undefined) {
+    const pinned = { ...extensionContext.workspaceState.get<Record<string, string>>(PINNED_ROBOTPY_VERSION_KEY, {}) };
+    if (version !== undefined) {
+        pinned[rootPath] = version;
+    } else {
+        delete pinned[rootPath];
+    }
+    await extensionContext.workspaceState.update(PINNED_ROBOTPY_VERSION_KEY, pinned);
+}
+
+const PYPI_ROBOTPY_URL = "https://pypi.org/pypi/robotpy/json";
+const PYPI_TIMEOUT_MS = 5000;
+
+/** Fetches and parses a JSON document, giving up after `PYPI_TIMEOUT_MS`. */
+function fetchJson(url: string): Promise<unknown> {
+    return new Promise((res, rej) => {
+        const req = https.get(url, { timeout: PYPI_TIMEOUT_MS, headers: { Accept: "application/json" } }, response => {
+            if (response.statusCode !== 200) {
+                response.resume();
+                rej(new Error(`${url} returned HTTP ${response.statusCode}`));
+                return;
+            }
+            let body = "";
+            response.setEncoding("utf8");
+            response.on("data", chunk => body += chunk);
+            response.on("end", () => {
+                try {
+                    res(JSON.parse(body));
+                } catch (e) {
+                    rej(e);
+                }
+            });
+            response.on("error", rej);
+        });
+        req.on("timeout", () => req.destroy(new Error(`Timed out fetching ${url}`)));
+        req.on("error", rej);
+    });
+}
+
+/**
+ * Finds the newest release of RobotPy, from PyPI's JSON API or, if PyPI cannot
+ * be reached (e.g. behind a package mirror), from `pip index versions`.
+ * Pre-releases and releases that were yanked are skipped. Resolves to
+ * undefined if it could not be found out, e.g. without internet.
+ */
+async function findLatestRobotPyVersion(rootPath: string): Promise<string | undefined> {
+    try {
+        const data = await fetchJson(PYPI_ROBOTPY_URL) as { releases?: Record<string, { yanked?: boolean }[]> };
+        const releases = Object.entries(data.releases ?? {})
+            .filter(([, files]) => files.some(file => !file.yanked))
+            .map(([version]) => version);
+        const latest = findLatestRelease(releases);
+        if (latest) {
+            return latest;
+        }
+        outputChannel.appendLine("PyPI listed no releases of RobotPy");
+    } catch (e) {
+        outputChannel.appendLine(`Failed to get the latest RobotPy version from PyPI: ${e}`);
+    }
+
+    try {
+        const { stdout } = await execFancy(getVenvPipPath(rootPath), [
+            "index", "versions", "robotpy", "--disable-pip-version-check", "--timeout", "5", "--retries", "0",
+        ], { cwd: rootPath, silent: true });
+        return findLatestRelease(stdout.match(/^Available versions: (.*)$/m)?.[1].split(/,\s*/) ?? []);
+    } catch (e) {
+        outputChannel.appendLine(`Failed to check for the latest RobotPy version: ${e}`);
+        return undefined;
+    }
+}
+
+/**
+ * Finds out whether `robotpy project update-robotpy` would change the
+ * project's `robotpy_version`, and if so, asks the user whether to update.
+ * Projects the user pinned are never updated.
+ *
+ * Resolves to whether to run the update, or undefined if the user cancelled
+ * syncing altogether.
+ */
+async function reviewRobotPyUpdate(rootPath: string): Promise<boolean | undefined> {
+    const pinned = getPinnedRobotPyVersion(rootPath);
+    if (pinned !== undefined) {
+        outputChannel.appendLine(`Not updating RobotPy: this project is pinned${pinned ? ` to ${pinned}` : ""}`);
+        return false;
+    }
+
+    const current = readRobotPyConfig(rootPath)?.robotpyVersion;
+    const latest = await findLatestRobotPyVersion(rootPath);
+    if (!latest) {
+        outputChannel.appendLine("Could not find the latest RobotPy version; syncing without updating");
+        return false;
+    }
+    if (current && compareVersions(latest, current) <= 0) {
+        outputChannel.appendLine(`RobotPy ${current} is up to date`);
+        return false;
+    }
+
+    const update = `Update to ${latest}`;
+    const keep = current ? `Keep ${current}` : "Don't Update";
+    const alwaysKeep = current ? `Always Keep ${current}` : "Never Update";
+    const action = await vscode.window.showInformationMessage(
+        current
+            ? `RobotPy ${latest} is available, but this project uses ${current}. Update it?`
+            : `This project does not specify a RobotPy version. Set it to ${latest}?`,
+        {
+            modal: true,
+            detail: [
+                "This changes pyproject.toml:",
+                current ? `- robotpy_version = "${current}"` : undefined,
+                `+ robotpy_version = "${latest}"`,
+                "",
+                "Everyone working on the robot and the robot itself will need the new version. Updating in the middle of a season may change how your robot behaves.",
+            ].filter(line => line !== undefined).join("\n"),
+        },
+        update, keep, alwaysKeep,
+    );
+
+    if (action === alwaysKeep) {
+        await setPinnedRobotPyVersion(rootPath, current ?? "");
+        outputChannel.appendLine(`Pinned RobotPy version for ${rootPath}`);
+        return false;
+    }
+    if (action === keep) {
+        return false;
+    }
+    return action === update ? true : undefined;
+}
+
+/**
+ * Updates the project to the latest RobotPy and syncs, whether or not the
+ * project was pinned. This is how the user un-pins a project.
+ */
+async function updateRobotPyCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+    if (getSettings(rootPath).offlineMode) {
+        vscode.window.showWarningMessage("Turn off offline mode (robotpy.offlineMode) and connect to the internet before updating RobotPy.");
+        return;
+    }
+
+    const cmds = [UPDATE_ROBOTPY_ARGS, ...ROBOTPY_TASKS.sync.cmds];
+    if (!await prepareRobotPyCommands(rootPath, cmds)) {
+        return;
+    }
+    await setPinnedRobotPyVersion(rootPath, undefined);
+    for (const cmd of cmds) {
+        await robotpyCommand(rootPath, cmd);
+    }
+}
+
+// ============================================================================
+// New project wizard
+
+/** The RobotPy component to install for each module a template imports. */
+const TEMPLATE_COMPONENTS: Record<string, string> = {
+    commands2: "commands2",
+    rev: "rev",
+    phoenix5: "phoenix5",
+    phoenix6: "phoenix6",
+    navx: "navx",
+    pathplannerlib: "pathplannerlib",
+    photonlibpy: "photonvision",
+    playingwithfusion: "playingwithfusion",
+    robotpy_apriltag: "apriltag",
+    cscore: "cscore",
+    romi: "romi",
+    xrp: "xrp",
+};
+
+interface ProjectTemplate {
+    /** E.g. `timed` or `commands-v2`. */
+    name: string,
+    /** The folder to copy, or undefined for what `robotpy init` creates. */
+    dir?: string,
+    /** The package the template came from, e.g. `robotpy-examples`. */
+    source?: string,
+}
+
+/**
+ * Finds the example and template projects that come with the packages
+ * installed in the venv: any `examples/<name>/robot.py` or
+ * `templates/<name>/robot.py` in an installed distribution.
+ */
+async function findProjectTemplates(rootPath: string): Promise<ProjectTemplate[]> {
+    const script = [
+        "import json, os",
+        "from importlib.metadata import distributions",
+        "found = {}",
+        "for dist in distributions():",
+        "    for f in dist.files or []:",
+        "        if len(f.parts) >= 3 and f.parts[-1] == 'robot.py' and f.parts[-3] in ('examples', 'templates'):",
+        "            found[os.path.dirname(str(dist.locate_file(f)))] = (dist.metadata['Name'], f.parts[-3])",
+        "print(json.dumps([[d, n, k] for d, (n, k) in found.items()]))",
+    ].join("\n");
+    try {
+        const { stdout } = await execFancy(getVenvPythonPath(rootPath), ["-c", script], { cwd: rootPath, silent: true });
+        const found = JSON.parse(stdout) as [string, string, string][];
+        // Templates are meant to be started from, so they go before examples.
+        found.sort((a, b) => (a[2] === b[2] ? 0 : a[2] === "templates" ? -1 : 1) || a[0].localeCompare(b[0]));
+        return found.map(([dir, source]) => ({ name: path.basename(dir), dir, source }));
+    } catch (e) {
+        outputChannel.appendLine(`Failed to find project templates: ${e}`);
+        return [];
+    }
+}
+
+/**
+ * Lists the `.py` files in a folder and its subfolders. This walks the folders
+ * itself, since `readdirSync` only lists recursively on newer versions of Node.
+ */
+function findPythonFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...findPythonFiles(entryPath));
+        } else if (entry.isFile() && entry.name.endsWith(".py")) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Works out which RobotPy components a template needs: those in its own
+ * pyproject.toml if it has one, and otherwise those it imports.
+ */
+function getTemplateComponents(dir: string): string[] {
+    const templatePyproject = path.join(dir, "pyproject.toml");
+    if (fs.existsSync(templatePyproject)) {
+        const templateConfig = parseRobotPyConfig(fs.readFileSync(templatePyproject, "utf8"));
+        if (templateConfig) {
+            return templateConfig.components;
+        }
+    }
+
+    const components = new Set<string>();
+    for (const file of findPythonFiles(dir)) {
+        const source = fs.readFileSync(file, "utf8");
+        for (const match of source.matchAll(/^\s*(?:from|import)\s+([A-Za-z_]\w*)/gm)) {
+            const component = TEMPLATE_COMPONENTS[match[1]];
+            if (component) {
+                components.add(component);
+            }
+        }
+    }
+    return [...components];
+}
+
+/**
+ * Creates a new RobotPy project in a new folder: sets up the venv, runs
+ * `robotpy init`, copies in the chosen template, fills in `[tool.robotpy]`
+ * and the team number, and opens the folder.
+ */
+async function newProjectCommand() {
+    await extensionInitialized;
+
+    const firstFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const parent = await vscode.window.showOpenDialog({
+        title: "Select the folder to create the new project in",
+        openLabel: "Create Project Here",
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: firstFolder ? vscode.Uri.file(path.dirname(firstFolder.fsPath)) : vscode.Uri.file(os.homedir()),
+    });
+    if (!parent || parent.length === 0) {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        title: "New RobotPy Project",
+        prompt: `The name of the project folder to create in ${parent[0].fsPath}`,
+        placeHolder: "e.g. robot-2025",
+        validateInput: value => {
+            if (!value.trim()) {
+                return "Enter a folder name.";
+            }
+            if (/[/\\:*?"<>|]/.test(value)) {
+                return "Folder names cannot contain any of / \\ : * ? \" < > |";
+            }
+            const target = path.join(parent[0].fsPath, value.trim());
+            if (!fs.existsSync(target)) {
+                return undefined;
+            }
+            if (!fs.statSync(target).isDirectory()) {
+                return "A file with that name already exists.";
+            }
+            if (fs.readdirSync(target).length > 0) {
+                return "That folder already exists and is not empty.";
+            }
+            return undefined;
+        },
+    });
+    if (!name) {
+        return;
+    }
+
+    const teamAnswer = await vscode.window.showInputBox({
+        title: "New RobotPy Project",
+        prompt: "Your team number",
+        placeHolder: "e.g. 2175",
+        validateInput: value => /^\d{1,5}$/.test(value.trim()) ? undefined : "Enter a team number, e.g. 2175.",
+    });
+    if (!teamAnswer) {
+        return;
+    }
+    const team = parseInt(teamAnswer.trim(), 10);
+
+    const rootPath = path.join(parent[0].fsPath, name.trim());
+    const createdFolder = !fs.existsSync(rootPath);
+    fs.mkdirSync(rootPath, { recursive: true });
+    outputChannel.appendLine(`Creating new RobotPy project: ${rootPath}`);
+
+    /**
+     * Removes what was made of a project that could not be finished, so that
+     * trying again does not find a folder that is not empty. Returns a note
+     * for the user if it could not be removed.
+     */
+    function removeUnfinishedProject(): string {
+        try {
+            if (createdFolder) {
+                fs.rmSync(rootPath, { recursive: true, force: true });
+            } else {
+                // The folder was empty to begin with.
+                for (const entry of fs.readdirSync(rootPath)) {
+                    fs.rmSync(path.join(rootPath, entry), { recursive: true, force: true });
+                }
+            }
+            outputChannel.appendLine(`Removed the unfinished project: ${rootPath}`);
+            return "";
+        } catch (e) {
+            outputChannel.appendLine(`Failed to remove the unfinished project: ${e}`);
+            return ` The unfinished project was left at ${rootPath}.`;
+        }
+    }
+
+    // The venv comes first, since the templates come from the packages
+    // installed in it.
+    const [checks] = await checkEnvironment(rootPath);
+    if (!checkSystemPython(checks)) {
+        removeUnfinishedProject();
+        return;
+    }
+    try {
+        if (!await setUpVenv(rootPath, checks)) {
+            removeUnfinishedProject();
+            return;
+        }
+    } catch (e) {
+        outputChannel.appendLine(`ERROR: ${e}`);
+        vscode.window.showErrorMessage(`Cannot create the project: Failed to set up the virtual environment.${removeUnfinishedProject()} See the output log for details.`);
+        outputChannel.show();
+        return;
+    }
+
+    type TemplateItem = vscode.QuickPickItem & { template: ProjectTemplate };
+    const templates = await findProjectTemplates(rootPath);
+    const items: TemplateItem[] = [
+        { label: "timed", description: "The robot that robotpy init creates", template: { name: "timed" } },
+        ...templates.map(t => ({ label: t.name, description: t.source, detail: t.dir, template: t })),
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+        title: "New RobotPy Project",
+        placeHolder: "Select a template for the new project",
+        matchOnDescription: true,
+    });
+    if (!picked) {
+        vscode.window.showInformationMessage(`Stopped creating the project. The folder with its virtual environment was left at ${rootPath}.`);
+        return;
+    }
+
+    try {
+        await robotpyCommand(rootPath, ["init"]);
+    } catch (e) {
+        outputChannel.appendLine(`ERROR: ${e}`);
+        vscode.window.showErrorMessage(`Cannot create the project: \`robotpy init\` failed.${removeUnfinishedProject()} See the output log for details.`);
+        return;
+    }
+
+    const template = picked.template;
+    try {
+        if (template.dir) {
+            // The template's own pyproject.toml would replace the one `robotpy
+            // init` wrote for this version; its components are merged in below.
+            fs.cpSync(template.dir, rootPath, {
+                recursive: true,
+                force: true,
+                filter: src => !["__pycache__", "pyproject.toml"].includes(path.basename(src)),
+            });
+        }
+
+        const pyprojectPath = path.join(rootPath, "pyproject.toml");
+        let content = fs.readFileSync(pyprojectPath, "utf8");
+        const config = parseRobotPyConfig(content);
+        const components = [...new Set([...config?.components ?? [], ...template.dir ? getTemplateComponents(template.dir) : []])];
+        if (components.length > 0) {
+            content = setRobotPyValue(content, getComponentsKey(config), components);
+        }
+        const [installed] = await checkEnvironment(rootPath);
+        if (!config?.robotpyVersion && installed.robotpyVersion) {
+            content = setRobotPyValue(content, "robotpy_version", installed.robotpyVersion);
+        }
+        fs.writeFileSync(pyprojectPath, content);
+
+        const prefsPath = path.join(rootPath, ".wpilib", "wpilib_preferences.json");
+        fs.mkdirSync(path.dirname(prefsPath), { recursive: true });
+        const year = installed.robotpyVersion?.split(".")[0];
+        fs.writeFileSync(prefsPath, JSON.stringify({ currentLanguage: "python", ...year ? { projectYear: year } : {}, teamNumber: team }, null, 4) + "\n");
+    } catch (e) {
+        outputChannel.appendLine(`ERROR: ${e}`);
+        vscode.window.showErrorMessage(`Cannot create the project: Failed to set it up from the ${template.name} template.${removeUnfinishedProject()} See the output log for details.`);
+        return;
+    }
+
+    outputChannel.appendLine(`Created new RobotPy project from template ${template.name}: ${rootPath}`);
+    let forceNewWindow = false;
+    if ((vscode.workspace.workspaceFolders?.length ?? 0) > 0) {
+        const action = await vscode.window.showInformationMessage(`Created ${name.trim()}. Open it now?`, "Open", "Open in New Window");
+        if (!action) {
+            return;
+        }
+        forceNewWindow = action === "Open in New Window";
+    }
+    await vscode.commands.executeCommand("vscode.openFolder", vscode.Uri.file(rootPath), { forceNewWindow });
+}
+
+// ============================================================================
+// Libraries
+
+/** A library that "Add/Remove Library" offers without the user typing its name. */
+interface KnownLibrary {
+    label: string,
+    description: string,
+    /** A RobotPy component, i.e. an extra of the robotpy package. */
+    component?: string,
+    /** Otherwise, a pip requirement. */
+    requirement?: string,
+}
+
+const KNOWN_LIBRARIES: KnownLibrary[] = [
+    { label: "commands2", description: "Command-based programming", component: "commands2" },
+    { label: "REV", description: "REV Robotics motor controllers and sensors", component: "rev" },
+    { label: "Phoenix 6", description: "CTR Electronics devices (Phoenix 6)", component: "phoenix6" },
+    { label: "Phoenix 5", description: "CTR Electronics devices (Phoenix 5)", component: "phoenix5" },
+    { label: "navX", description: "Studica navX IMU", component: "navx" },
+    { label: "PathPlanner", description: "PathPlannerLib autonomous paths", component: "pathplannerlib" },
+    { label: "PhotonVision", description: "PhotonLib vision processing", component: "photonvision" },
+    { label: "Playing With Fusion", description: "Playing With Fusion motor controllers and sensors", component: "playingwithfusion" },
+    { label: "AprilTag", description: "AprilTag detection and field layouts", component: "apriltag" },
+    { label: "cscore", description: "Camera streaming", component: "cscore" },
+    { label: "Romi", description: "Support for the Romi robot", component: "romi" },
+    { label: "XRP", description: "Support for the XRP robot", component: "xrp" },
+    { label: "Choreo", description: "ChoreoLib trajectories", requirement: "sleipnirgroup-choreolib" },
+];
+
+/** Roughly what pip accepts as a requirement: a name, extras, and version specifiers. */
+const REQUIREMENT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*(\[[A-Za-z0-9._,\s-]*\])?\s*([<>=!~]=?\s*[^\s,;]+(\s*,\s*[<>=!~]=?\s*[^\s,;]+)*)?$/;
+
+type LibraryItem = vscode.QuickPickItem & { component?: string, requirement?: string };
+
+/**
+ * Lets the user choose the project's RobotPy components and pip requirements
+ * from a list of known libraries, or type in other requirements. Resolves to
+ * undefined if they cancelled.
+ */
+async function pickLibraries(config: RobotPyProjectConfig): Promise<{ components: string[], requires: string[] } | undefined> {
+    const requiredNames = new Map(config.requires.map(r => [getRequirementName(r), r]));
+    const known = KNOWN_LIBRARIES.map((library): LibraryItem => ({
+        label: library.label,
+        description: library.component ?? library.requirement,
+        detail: library.description,
+        component: library.component,
+        // Keep the version the project asks for, if any.
+        requirement: library.requirement && (requiredNames.get(getRequirementName(library.requirement)) ?? library.requirement),
+        picked: library.component
+            ? config.components.includes(library.component)
+            : requiredNames.has(getRequirementName(library.requirement ?? "")),
+    }));
+    const knownComponents = new Set(KNOWN_LIBRARIES.map(l => l.component));
+    const knownRequirements = new Set(KNOWN_LIBRARIES.map(l => l.requirement && getRequirementName(l.requirement)));
+    const other: LibraryItem[] = [
+        ...config.components.filter(c => !knownComponents.has(c)).map(c => ({ label: c, description: "component", component: c, picked: true })),
+        ...config.requires.filter(r => !knownRequirements.has(getRequirementName(r))).map(r => ({ label: r, description: "requirement", requirement: r, picked: true })),
+    ];
+
+    const addButton = { iconPath: new vscode.ThemeIcon("add"), tooltip: "Add a pip requirement" };
+    let selected = [...known, ...other].filter(item => item.picked);
+    for (;;) {
+        const quickPick = vscode.window.createQuickPick<LibraryItem>();
+        quickPick.title = "Add/Remove Library";
+        quickPick.placeholder = "Select the libraries your robot uses. Use + to add any other pip requirement.";
+        quickPick.canSelectMany = true;
+        quickPick.matchOnDescription = true;
+        quickPick.buttons = [addButton];
+        quickPick.items = [
+            { label: "Libraries", kind: vscode.QuickPickItemKind.Separator },
+            ...known,
+            ...other.length > 0 ? [{ label: "Other", kind: vscode.QuickPickItemKind.Separator }, ...other] : [],
+        ];
+        quickPick.selectedItems = quickPick.items.filter(item => selected.includes(item));
+
+        const result = await new Promise<"accept" | "add" | undefined>(res => {
+            quickPick.onDidTriggerButton(() => res("add"));
+            quickPick.onDidAccept(() => res("accept"));
+            quickPick.onDidHide(() => res(undefined));
+            quickPick.show();
+        });
+        selected = [...quickPick.selectedItems];
+        quickPick.dispose();
+
+        if (result === undefined) {
+            return undefined;
+        }
+        if (result === "accept") {
+            break;
+        }
+
+        const requirement = await vscode.window.showInputBox({
+            title: "Add a pip requirement",
+            prompt: "The package name as on PyPI, optionally with a version",
+            placeHolder: "e.g. numpy or numpy>=2",
+            validateInput: value => REQUIREMENT_PATTERN.test(value.trim()) ? undefined : "Enter a pip requirement, e.g. numpy or numpy>=2.",
+        });
+        if (requirement) {
+            const name = getRequirementName(requirement);
+            const existing = [...known, ...other].find(item => item.requirement && getRequirementName(item.requirement) === name);
+            if (existing) {
+                // Already in the list, so just select it (with the new version).
+                if (existing.label === existing.requirement) {
+                    existing.label = requirement.trim();
+                }
+                if (existing.description === existing.requirement) {
+                    existing.description = requirement.trim();
+                }
+                existing.requirement = requirement.trim();
+                if (!selected.includes(existing)) {
+                    selected.push(existing);
+                }
+            } else {
+                const item: LibraryItem = { label: requirement.trim(), description: "requirement", requirement: requirement.trim() };
+                other.push(item);
+                selected.push(item);
+            }
+        }
+    }
+
+    // Keep the project's order, with new libraries at the end.
+    const orderBy = (existing: string[]) => (a: string, b: string) =>
+        (existing.indexOf(a) + 1 || Infinity) - (existing.indexOf(b) + 1 || Infinity);
+    const components = selected.flatMap(item => item.component ? [item.component] : []).sort(orderBy(config.components));
+    const requires = selected.flatMap(item => item.requirement ? [item.requirement] : []).sort(orderBy(config.requires));
+    return { components, requires };
+}
+
+/**
+ * Adds or removes RobotPy components and pip requirements in the project's
+ * `[tool.robotpy]`, keeping the rest of pyproject.toml as it was, then syncs.
+ */
+async function manageLibrariesCommand() {
+    await extensionInitialized;
+    const rootPath = await pickRootPath();
+    if (!rootPath) {
+        return;
+    }
+
+    // Edit the document rather than the file, in case it is open with unsaved changes.
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(rootPath, "pyproject.toml")));
+    const config = parseRobotPyConfig(doc.getText());
+    if (!config) {
+        vscode.window.showErrorMessage("Cannot manage libraries: could not read the [tool.robotpy] section of pyproject.toml.");
+        return;
+    }
+    const picked = await pickLibraries(config);
+    if (!picked) {
+        return;
+    }
+
+    const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((v, i) => v === b[i]);
+    let content = doc.getText();
+    if (!sameList(picked.components, config.components)) {
+        content = setRobotPyValue(content, getComponentsKey(config), picked.components);
+    }
+    if (!sameList(picked.requires, config.requires)) {
+        content = setRobotPyValue(content, "requires", picked.requires);
+    }
+    if (content === doc.getText()) {
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(doc.uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), content);
+    if (!await vscode.workspace.applyEdit(edit) || !await doc.save()) {
+        vscode.window.showErrorMessage("Failed to update pyproject.toml.");
+        return;
+    }
+    outputChannel.appendLine(`Updated libraries in ${doc.uri.fsPath}: components ${JSON.stringify(picked.components)}, requires ${JSON.stringify(picked.requires)}`);
+    // The user chose these and is about to sync, so do not ask them to sync.
+    rememberRequirements(rootPath);
+
+    if (await prepareRobotPyCommands(rootPath, ROBOTPY_TASKS.sync.cmds)) {
+        await syncProject(rootPath);
+    }
+}
+
+// ============================================================================
+// Watching for changes
+
+/** How long to wait for changes to settle before checking, since pip touches many files. */
+const RECHECK_DELAY_MS = 1000;
+
+const projectWatchers = new Map<string, vscode.Disposable>();
+const recheckTimers = new Map<string, NodeJS.Timeout>();
+/** Projects whose pyproject.toml changed since they were last checked. */
+const pyprojectChanged = new Set<string>();
+/**
+ * The requirements in each project's pyproject.toml as of the last sync (or
+ * when it was opened), so that we only offer to sync when they change.
+ */
+const knownRequirements = new Map<string, string>();
+
+/** The parts of `[tool.robotpy]` that `robotpy sync` installs, in a form that is easy to compare. */
+function describeRequirements(config: RobotPyProjectConfig | undefined): string {
+    return JSON.stringify(config && {
+        robotpyVersion: config.robotpyVersion,
+        components: [...config.components].sort(),
+        requires: [...config.requires].sort(),
+    });
+}
+
+function rememberRequirements(rootPath: string) {
+    knownRequirements.set(rootPath, describeRequirements(readRobotPyConfig(rootPath)));
+}
+
+/**
+ * Watches the project's pyproject.toml and venv, so that the environment is
+ * checked again when they change outside of our commands: the venv is
+ * deleted, `pip install` is run by hand, or switching git branches changes
+ * the requirements.
+ */
+function watchProject(rootPath: string) {
+    unwatchProject(rootPath);
+
+    const venvPath = getVenvPath(rootPath);
+    const pyprojectWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(rootPath), "pyproject.toml"));
+    // Deleting a folder only reports the folder, so watch the venv itself as
+    // well as the files that say what is in it.
+    const venvWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(path.dirname(venvPath)), path.basename(venvPath)));
+    const venvContentsWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(venvPath), "{pyvenv.cfg,**/site-packages/robotpy-*.dist-info/METADATA}"));
+
+    const onPyprojectChange = () => {
+        refreshSidebar();
+        pyprojectChanged.add(rootPath);
+        scheduleRecheck(rootPath);
+    };
+    const onVenvChange = () => scheduleRecheck(rootPath);
+    const disposables: vscode.Disposable[] = [
+        pyprojectWatcher, venvWatcher, venvContentsWatcher,
+        pyprojectWatcher.onDidChange(onPyprojectChange),
+        pyprojectWatcher.onDidCreate(onPyprojectChange),
+        pyprojectWatcher.onDidDelete(onPyprojectChange),
+        ...[venvWatcher, venvContentsWatcher].flatMap(watcher => [
+            watcher.onDidChange(onVenvChange),
+            watcher.onDidCreate(onVenvChange),
+            watcher.onDidDelete(onVenvChange),
+        ]),
+    ];
+    projectWatchers.set(rootPath, vscode.Disposable.from(...disposables));
+}
+
+function unwatchProject(rootPath: string) {
+    projectWatchers.get(rootPath)?.dispose();
+    projectWatchers.delete(rootPath);
+    clearTimeout(recheckTimers.get(rootPath));
+    recheckTimers.delete(rootPath);
+    pyprojectChanged.delete(rootPath);
+}
+
+function scheduleRecheck(rootPath: string) {
+    clearTimeout(recheckTimers.get(rootPath));
+    recheckTimers.set(rootPath, setTimeout(() => {
+        recheckTimers.delete(rootPath);
+        // Setup and sync change these files as they go, and check again
+        // afterwards anyway, so wait for them.
+        if ([...processSessions].some(s => s.rootPath === rootPath && (s.kind === "setup" || s.kind === "sync"))) {
+            scheduleRecheck(rootPath);
+            return;
+        }
+        recheck(rootPath).catch(e => {
+            outputChannel.appendLine(`ERROR: Failed to re-check the environment: ${e}`);
+            vscode.window.showErrorMessage("Failed to re-check the RobotPy environment after the project changed. See the output log for details.");
+        });
+    }, RECHECK_DELAY_MS));
+}
+
+async function recheck(rootPath: string) {
+    await extensionInitialized;
+    outputChannel.appendLine(`Project files changed; re-checking environment: ${rootPath}`);
+    const [checks] = await checkEnvironment(rootPath);
+    if (!pyprojectChanged.delete(rootPath)) {
+        return;
+    }
+
+    const requirements = describeRequirements(readRobotPyConfig(rootPath));
+    if (requirements === knownRequirements.get(rootPath)) {
+        return;
+    }
+    knownRequirements.set(rootPath, requirements);
+    if (!checks.hasRobotPyProjectFile || !checks.isVenvReady) {
+        // Without a working venv, the status bar already says what to do.
+        return;
+    }
+
+    const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    const where = isMultiRoot ? ` in "${path.basename(rootPath)}"` : "";
+    const action = await vscode.window.showInformationMessage(
+        `The requirements in pyproject.toml${where} changed. Sync now?`,
+        "Sync Now", "Not Now",
+    );
+    if (action !== "Sync Now") {
+        return;
+    }
+    // This is a sync the user asked for, so its failures are not the re-check's.
+    try {
+        if (await prepareRobotPyCommands(rootPath, ROBOTPY_TASKS.sync.cmds)) {
+            await syncProject(rootPath);
+        }
+    } catch (e) {
+        outputChannel.appendLine(`ERROR: Failed to sync: ${e}`);
+        vscode.window.showErrorMessage("Failed to sync the RobotPy project. See the output log for details.");
+        outputChannel.show();
     }
 }
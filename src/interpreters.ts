@@ -0,0 +1,97 @@
+// Finding the Python interpreters installed on this computer. This only lists
+// the places they may be; running them to see which work (and which version
+// they are) is up to the caller.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const PYTHON_EXECUTABLE = process.platform === "win32"
+    ? /^python(\d+(\.\d+)?)?\.exe$/i
+    : /^python(\d+(\.\d+)?)?$/;
+
+/**
+ * Lists the folders that may contain Python executables, roughly in order of
+ * preference: the active conda environment first, since the user chose it,
+ * then PATH, then the usual install locations and version managers.
+ */
+function getPythonSearchDirs(): string[] {
+    const home = os.homedir();
+    const dirs: string[] = [];
+
+    const condaPrefix = process.env.CONDA_PREFIX;
+    if (condaPrefix) {
+        dirs.push(process.platform === "win32" ? condaPrefix : path.join(condaPrefix, "bin"));
+    }
+
+    dirs.push(...(process.env.PATH ?? "").split(path.delimiter).filter(d => d !== ""));
+
+    const pyenvRoot = process.env.PYENV_ROOT ?? path.join(home, ".pyenv");
+    const asdfRoot = process.env.ASDF_DATA_DIR ?? path.join(home, ".asdf");
+    if (process.platform === "win32") {
+        const localAppData = process.env.LOCALAPPDATA ?? path.join(home, "AppData", "Local");
+        dirs.push(...subdirs(path.join(localAppData, "Programs", "Python")));
+        dirs.push(...subdirs(path.join(pyenvRoot, "pyenv-win", "versions")));
+    } else {
+        dirs.push("/usr/bin", "/usr/local/bin", "/opt/homebrew/bin", "/opt/local/bin");
+        dirs.push(...subdirs(path.join(pyenvRoot, "versions")).map(d => path.join(d, "bin")));
+        dirs.push(path.join(pyenvRoot, "shims"));
+        dirs.push(...subdirs(path.join(asdfRoot, "installs", "python")).map(d => path.join(d, "bin")));
+        dirs.push(path.join(asdfRoot, "shims"));
+    }
+    return dirs;
+}
+
+function subdirs(dir: string): string[] {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .map(entry => path.join(dir, entry.name));
+    } catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Lists every file that looks like a Python executable (`python`, `python3`,
+ * `python3.12`, ...) in the places Python is usually installed. Each path is
+ * listed once, but different paths may still lead to the same interpreter.
+ */
+export function listPythonExecutables(): string[] {
+    const found: string[] = [];
+    const seenDirs = new Set<string>();
+    for (const dir of getPythonSearchDirs()) {
+        const key = process.platform === "win32" ? dir.toLowerCase() : dir;
+        if (seenDirs.has(key)) {
+            continue;
+        }
+        seenDirs.add(key);
+
+        let names: string[];
+        try {
+            names = fs.readdirSync(dir);
+        } catch (e) {
+            continue;
+        }
+        for (const name of names.filter(n => PYTHON_EXECUTABLE.test(n)).sort()) {
+            found.push(path.join(dir, name));
+        }
+    }
+    return found;
+}
+
+/**
+ * Parses the output of `py -0p`, the Windows launcher's list of installed
+ * interpreters, into their paths. Both the old (` -3.12-64 *  C:\...`) and new
+ * (` -V:3.12 *  C:\...`) formats end each line with the path.
+ */
+export function parsePyLauncherList(output: string): string[] {
+    const paths: string[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.match(/^\s*-\S+\s+(?:\*\s+)?(.+\.exe)\s*$/i);
+        if (match) {
+            paths.push(match[1].trim());
+        }
+    }
+    return paths;
+}
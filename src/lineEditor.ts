@@ -0,0 +1,260 @@
+// A small line editor for our pseudoterminals. The processes we run read
+// plain lines from stdin, so the terminal has to do the editing itself: cursor
+// movement, history, pastes, and hiding passwords.
+
+export interface LineEditorHandlers {
+    /** Writes to the terminal, for echo and cursor movement. */
+    echo: (data: string) => void,
+    /** Sends text to the process's stdin. Lines include their newline. */
+    send: (text: string) => void,
+    /** Ctrl-C. The editor clears its own line. */
+    onInterrupt: () => void,
+    /** Ctrl-D on an empty line. */
+    onEof: () => void,
+}
+
+export interface LineEditor {
+    /** Handles input from the terminal, which may be several keys or a paste. */
+    handleInput: (data: string) => void,
+    /**
+     * Tells the editor what the process printed, so that it can hide what is
+     * typed at password prompts.
+     */
+    onOutput: (data: string) => void,
+    /** Forgets the current line, e.g. when a new process starts. */
+    reset: () => void,
+}
+
+const MAX_HISTORY = 100;
+
+/** Prompts after which typed text should not be echoed (e.g. SSH during deploy). */
+const PASSWORD_PROMPT = /(password|passphrase)[^\n]*:\s*$/i;
+
+/**
+ * Splits terminal input into keys: escape sequences, control characters,
+ * and single (possibly multi-unit) characters. `\r\n` counts as one key.
+ */
+export function splitKeys(data: string): string[] {
+    const keys: string[] = [];
+    // ESC [ params final | ESC O x | ESC x | CR LF | any code point
+    const regex = /\x1b\[[0-?]*[ -/]*[@-~]|\x1bO.|\x1b.?|\r\n|[\s\S]/gu;
+    for (const match of data.matchAll(regex)) {
+        keys.push(match[0]);
+    }
+    return keys;
+}
+
+export function createLineEditor(handlers: LineEditorHandlers): LineEditor {
+    let line: string[] = [];
+    let cursor = 0;
+    let hidden = false;
+    /** The output since the last newline, for spotting password prompts. */
+    let outputTail = "";
+
+    const history: string[] = [];
+    /** Index into history while browsing it; equal to history.length when not. */
+    let historyIndex = 0;
+    let draft: string[] = [];
+
+    function moveLeft(n: number): string {
+        return n > 0 ? `\x1b[${n}D` : "";
+    }
+
+    function moveRight(n: number): string {
+        return n > 0 ? `\x1b[${n}C` : "";
+    }
+
+    /**
+     * Redraws the line from `from` to the end, given that the terminal's
+     * cursor is at `from`, and leaves it at `cursor`.
+     */
+    function redrawFrom(from: number) {
+        if (!hidden) {
+            handlers.echo(line.slice(from).join("") + "\x1b[K" + moveLeft(line.length - cursor));
+        }
+    }
+
+    function setLine(chars: string[]) {
+        if (!hidden) {
+            handlers.echo(moveLeft(cursor));
+        }
+        line = chars;
+        cursor = chars.length;
+        redrawFrom(0);
+    }
+
+    function insert(text: string) {
+        const chars = Array.from(text);
+        const from = cursor;
+        line.splice(cursor, 0, ...chars);
+        cursor += chars.length;
+        redrawFrom(from);
+    }
+
+    function deleteRange(start: number, end: number) {
+        start = Math.max(0, start);
+        end = Math.min(line.length, end);
+        if (start >= end) {
+            return;
+        }
+        if (!hidden) {
+            handlers.echo(moveLeft(cursor - start));
+        }
+        line.splice(start, end - start);
+        cursor = start;
+        redrawFrom(start);
+    }
+
+    function moveTo(pos: number) {
+        pos = Math.max(0, Math.min(line.length, pos));
+        if (!hidden) {
+            handlers.echo(pos < cursor ? moveLeft(cursor - pos) : moveRight(pos - cursor));
+        }
+        cursor = pos;
+    }
+
+    function submit() {
+        const text = line.join("");
+        handlers.echo("\r\n");
+        if (text !== "" && !hidden && history[history.length - 1] !== text) {
+            history.push(text);
+            if (history.length > MAX_HISTORY) {
+                history.shift();
+            }
+        }
+        historyIndex = history.length;
+        line = [];
+        cursor = 0;
+        hidden = false;
+        handlers.send(text + "\n");
+    }
+
+    function browseHistory(delta: number) {
+        if (hidden) {
+            return;
+        }
+        const index = historyIndex + delta;
+        if (index < 0 || index > history.length) {
+            return;
+        }
+        if (historyIndex === history.length) {
+            draft = line;
+        }
+        historyIndex = index;
+        setLine(index === history.length ? draft : Array.from(history[index]));
+    }
+
+    function wordStartBefore(pos: number): number {
+        while (pos > 0 && /\s/.test(line[pos - 1])) {
+            pos--;
+        }
+        while (pos > 0 && !/\s/.test(line[pos - 1])) {
+            pos--;
+        }
+        return pos;
+    }
+
+    function handleKey(key: string) {
+        switch (key) {
+            case "\r":
+            case "\n":
+            case "\r\n":
+                submit();
+                return;
+            case "\x03": // ctrl-c
+                handlers.echo("^C\r\n");
+                line = [];
+                cursor = 0;
+                hidden = false;
+                historyIndex = history.length;
+                handlers.onInterrupt();
+                return;
+            case "\x04": // ctrl-d
+                if (line.length === 0) {
+                    handlers.onEof();
+                } else {
+                    // Like a real terminal, ctrl-d sends what has been typed
+                    // so far without a newline.
+                    handlers.send(line.join(""));
+                    line = [];
+                    cursor = 0;
+                }
+                return;
+            case "\x7f":
+            case "\x08": // backspace
+                deleteRange(cursor - 1, cursor);
+                return;
+            case "\x1b[3~": // delete
+                deleteRange(cursor, cursor + 1);
+                return;
+            case "\x15": // ctrl-u
+                deleteRange(0, cursor);
+                return;
+            case "\x0b": // ctrl-k
+                deleteRange(cursor, line.length);
+                return;
+            case "\x17": // ctrl-w
+                deleteRange(wordStartBefore(cursor), cursor);
+                return;
+            case "\x1b[D":
+            case "\x1bOD":
+            case "\x02": // left, ctrl-b
+                moveTo(cursor - 1);
+                return;
+            case "\x1b[C":
+            case "\x1bOC":
+            case "\x06": // right, ctrl-f
+                moveTo(cursor + 1);
+                return;
+            case "\x1b[H":
+            case "\x1bOH":
+            case "\x1b[1~":
+            case "\x01": // home, ctrl-a
+                moveTo(0);
+                return;
+            case "\x1b[F":
+            case "\x1bOF":
+            case "\x1b[4~":
+            case "\x05": // end, ctrl-e
+                moveTo(line.length);
+                return;
+            case "\x1b[A":
+            case "\x1bOA": // up
+                browseHistory(-1);
+                return;
+            case "\x1b[B":
+            case "\x1bOB": // down
+                browseHistory(1);
+                return;
+        }
+
+        // Anything else that is not printable (other escape sequences, bracketed
+        // paste markers, control characters) must not end up in the line.
+        if (key.startsWith("\x1b") || /^[\x00-\x1f]$/.test(key)) {
+            return;
+        }
+        insert(key);
+    }
+
+    return {
+        handleInput(data) {
+            for (const key of splitKeys(data)) {
+                handleKey(key);
+            }
+        },
+        onOutput(data) {
+            const lastNewline = data.lastIndexOf("\n");
+            outputTail = lastNewline >= 0 ? data.slice(lastNewline + 1) : (outputTail + data).slice(-200);
+            if (PASSWORD_PROMPT.test(outputTail) && line.length === 0) {
+                hidden = true;
+            }
+        },
+        reset() {
+            line = [];
+            cursor = 0;
+            hidden = false;
+            outputTail = "";
+            historyIndex = history.length;
+        },
+    };
+}
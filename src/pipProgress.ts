@@ -0,0 +1,94 @@
+// Following the output of `pip install` (or `uv pip install`) to tell how far
+// along it is. Neither says up front how many packages there will be, so this
+// is an estimate: resolving creeps towards the middle of the bar as packages
+// are found, and installing and finishing fill the rest.
+
+export interface PipProgressUpdate {
+    /** What pip is doing now, e.g. `Downloading robotpy-wpilib`. */
+    message: string,
+    /** How far along pip is, from 0 to 1. Never goes backwards. */
+    fraction: number,
+}
+
+export interface PipProgressTracker {
+    /** Feeds in output, which may be split anywhere. Returns an update if there is news. */
+    onOutput: (data: string) => PipProgressUpdate | undefined,
+}
+
+/** How much of the bar resolving (collecting and downloading) may take. */
+const RESOLVE_SHARE = 0.6;
+/** How much closer to RESOLVE_SHARE each new package gets. */
+const RESOLVE_STEP = 0.15;
+const INSTALL_FRACTION = 0.8;
+
+/** Turns `robotpy_wpilib-2025.3.2-cp312-...whl` or `robotpy-wpilib==2025.3.2` into a package name. */
+function packageName(text: string): string {
+    const file = text.slice(text.lastIndexOf("/") + 1);
+    return file.split(/[\s=<>!~;[(]|-\d/)[0];
+}
+
+export function createPipProgressTracker(): PipProgressTracker {
+    let partial = "";
+    let fraction = 0;
+    let packages = 0;
+
+    function resolved(): number {
+        return RESOLVE_SHARE * (1 - Math.pow(1 - RESOLVE_STEP, packages));
+    }
+
+    function parseLine(line: string): PipProgressUpdate | undefined {
+        const trimmed = line.trim();
+        let match;
+        if ((match = trimmed.match(/^Collecting (\S+)/))) {
+            packages++;
+            return { message: `Collecting ${packageName(match[1])}`, fraction: resolved() };
+        }
+        if ((match = trimmed.match(/^Requirement already satisfied: (\S+)/))) {
+            packages++;
+            return { message: `Checking ${packageName(match[1])}`, fraction: resolved() };
+        }
+        if ((match = trimmed.match(/^(Downloading|Using cached) (\S+)/))) {
+            return { message: `Downloading ${packageName(match[2])}`, fraction: resolved() };
+        }
+        if ((match = trimmed.match(/^Installing collected packages: (.*)$/))) {
+            const count = match[1].split(",").length;
+            return { message: `Installing ${count} package${count === 1 ? "" : "s"}`, fraction: INSTALL_FRACTION };
+        }
+        if (/^Successfully installed /.test(trimmed)) {
+            return { message: "Installed", fraction: 1 };
+        }
+
+        // uv prints a summary line per stage instead.
+        if ((match = trimmed.match(/^Resolved (\d+) packages?/))) {
+            return { message: `Resolved ${match[1]} packages`, fraction: RESOLVE_SHARE / 2 };
+        }
+        if ((match = trimmed.match(/^Prepared (\d+) packages?/))) {
+            return { message: `Downloaded ${match[1]} packages`, fraction: RESOLVE_SHARE };
+        }
+        if ((match = trimmed.match(/^(Installed|Uninstalled) (\d+) packages?/))) {
+            return { message: `${match[1]} ${match[2]} packages`, fraction: match[1] === "Installed" ? 1 : INSTALL_FRACTION };
+        }
+        if (/^Audited \d+ packages?/.test(trimmed)) {
+            return { message: "Already up to date", fraction: 1 };
+        }
+        return undefined;
+    }
+
+    return {
+        onOutput(data) {
+            // pip draws its download bars with \r, so treat that as a line end too.
+            const lines = (partial + data).split(/\r\n|\r|\n/);
+            partial = lines.pop() ?? "";
+
+            let latest: PipProgressUpdate | undefined;
+            for (const line of lines) {
+                const update = parseLine(line);
+                if (update) {
+                    fraction = Math.max(fraction, update.fraction);
+                    latest = { message: update.message, fraction };
+                }
+            }
+            return latest;
+        },
+    };
+}
@@ -0,0 +1,317 @@
+// Reading the `[tool.robotpy]` section of pyproject.toml. This understands
+// just enough TOML for the keys RobotPy uses: strings, booleans, numbers and
+// arrays of strings, possibly spread over several lines.
+
+export interface RobotPyProjectConfig {
+    /** E.g. `2025.3.2`, or undefined if not pinned. */
+    robotpyVersion?: string,
+    /**
+     * RobotPy components (pip extras), e.g. `commands2` or `rev`. These live
+     * in `robotpy_extras`, or `components` in older projects.
+     */
+    components: string[],
+    /** Extra pip requirements. */
+    requires: string[],
+    /** Every key in the section, as parsed. */
+    raw: Record<string, TomlValue>,
+}
+
+export type TomlValue = string | number | boolean | TomlValue[];
+
+const SECTION_HEADER = /^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/;
+
+/**
+ * Finds the lines of the `[tool.robotpy]` section, not including its header.
+ * Returns undefined if there is no such section.
+ */
+export function findRobotPySection(content: string): { start: number, end: number } | undefined {
+    const lines = content.split(/\r?\n/);
+    let start: number | undefined;
+    for (let i = 0; i < lines.length; i++) {
+        const header = lines[i].match(SECTION_HEADER);
+        if (!header) {
+            continue;
+        }
+        if (start !== undefined) {
+            return { start, end: i };
+        }
+        if (header[1] === "tool.robotpy") {
+            start = i + 1;
+        }
+    }
+    return start !== undefined ? { start, end: lines.length } : undefined;
+}
+
+/**
+ * Parses the `[tool.robotpy]` section of a pyproject.toml. Returns undefined
+ * if the file has no such section.
+ */
+export function parseRobotPyConfig(content: string): RobotPyProjectConfig | undefined {
+    const section = findRobotPySection(content);
+    if (!section) {
+        return undefined;
+    }
+
+    const lines = content.split(/\r?\n/).slice(section.start, section.end);
+    const raw: Record<string, TomlValue> = {};
+    for (let i = 0; i < lines.length; i++) {
+        const keyMatch = lines[i].match(/^\s*([A-Za-z0-9_-]+|"[^"]*")\s*=\s*(.*)$/);
+        if (!keyMatch) {
+            continue;
+        }
+        const key = keyMatch[1].replace(/^"|"$/g, "");
+
+        // Arrays may span lines, so gather text until the brackets balance.
+        let text = keyMatch[2];
+        while (text.trimStart().startsWith("[") && !isBalanced(text) && i + 1 < lines.length) {
+            i++;
+            text += "\n" + lines[i];
+        }
+
+        const value = parseTomlValue(text);
+        if (value !== undefined) {
+            raw[key] = value;
+        }
+    }
+
+    const strings = (value: TomlValue | undefined) =>
+        Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+    return {
+        robotpyVersion: typeof raw.robotpy_version === "string" ? raw.robotpy_version : undefined,
+        components: strings(raw.robotpy_extras ?? raw.components),
+        requires: strings(raw.requires),
+        raw,
+    };
+}
+
+/**
+ * The key that holds the components: `robotpy_extras`, unless the project is
+ * old enough to use `components`.
+ */
+export function getComponentsKey(config: RobotPyProjectConfig | undefined): string {
+    return config?.raw.robotpy_extras === undefined && config?.raw.components !== undefined ? "components" : "robotpy_extras";
+}
+
+/**
+ * Gets the package name from a pip requirement such as `numpy>=2` or
+ * `Foo_Bar[extra]==1.0`, normalized so that names that pip considers the
+ * same compare equal (`foo-bar`).
+ */
+export function getRequirementName(requirement: string): string {
+    const name = requirement.trim().match(/^[A-Za-z0-9._-]+/)?.[0] ?? requirement.trim();
+    return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Builds the pip requirements that `robotpy sync` would install locally for
+ * the project.
+ */
+export function getLocalRequirements(config: RobotPyProjectConfig): string[] {
+    const extras = config.components.length > 0 ? `[${config.components.join(",")}]` : "";
+    const version = config.robotpyVersion ? `==${config.robotpyVersion}` : "";
+    return [`robotpy${extras}${version}`, ...config.requires];
+}
+
+/**
+ * Sets a key in the `[tool.robotpy]` section, or removes it if `value` is
+ * undefined, and returns the new file content. Everything else in the file is
+ * left exactly as it was: other keys, comments, the key's own trailing
+ * comment, and arrays written one item per line stay that way. The section is
+ * added at the end of the file if there is none.
+ */
+export function setRobotPyValue(content: string, key: string, value: TomlValue | undefined): string {
+    const newline = content.includes("\r\n") ? "\r\n" : "\n";
+    const lines = content.split(/\r?\n/);
+    const section = findRobotPySection(content);
+    if (!section) {
+        if (value === undefined) {
+            return content;
+        }
+        const needsBlank = content.trim() !== "";
+        const prefix = content === "" || content.endsWith("\n") ? content : content + newline;
+        return `${prefix}${needsBlank ? newline : ""}[tool.robotpy]${newline}${key} = ${formatTomlValue(value)}${newline}`;
+    }
+
+    let lastKeyEnd = section.start;
+    for (let i = section.start; i < section.end; i++) {
+        const keyMatch = lines[i].match(/^(\s*)([A-Za-z0-9_-]+|"[^"]*")(\s*=\s*)(.*)$/);
+        if (!keyMatch) {
+            continue;
+        }
+
+        let end = i;
+        let text = keyMatch[4];
+        while (text.trimStart().startsWith("[") && !isBalanced(text) && end + 1 < section.end) {
+            end++;
+            text += "\n" + lines[end];
+        }
+
+        if (keyMatch[2].replace(/^"|"$/g, "") !== key) {
+            lastKeyEnd = end + 1;
+            i = end;
+            continue;
+        }
+
+        if (value === undefined) {
+            lines.splice(i, end - i + 1);
+            return lines.join(newline);
+        }
+        if (end > i && Array.isArray(value)) {
+            const body = editArrayLines(lines.slice(i, end + 1), value);
+            if (body) {
+                lines.splice(i, end - i + 1, ...body);
+                return lines.join(newline);
+            }
+        }
+        const comment = findComment(lines[end].slice(end === i ? lines[end].length - keyMatch[4].length : 0));
+        lines.splice(i, end - i + 1, `${keyMatch[1]}${keyMatch[2]}${keyMatch[3]}${formatTomlValue(value)}${comment ? " " + comment : ""}`);
+        return lines.join(newline);
+    }
+
+    if (value === undefined) {
+        return content;
+    }
+    // Add the key after the last one in the section, so that it stays above
+    // any blank lines or comments that separate the next section.
+    lines.splice(lastKeyEnd, 0, `${key} = ${formatTomlValue(value)}`);
+    return lines.join(newline);
+}
+
+export function formatTomlValue(value: TomlValue): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(formatTomlValue).join(", ")}]`;
+    }
+    if (typeof value === "string") {
+        return `"${value.replace(/["\\]/g, c => "\\" + c).replace(/\n/g, "\\n").replace(/\t/g, "\\t")}"`;
+    }
+    return String(value);
+}
+
+/**
+ * Edits an array of strings written one item per line, like the one `robotpy
+ * init` writes for `robotpy_extras`:
+ *
+ *     robotpy_extras = [
+ *         # "all"
+ *         # "commands2"
+ *         "rev",
+ *     ]
+ *
+ * Items that are no longer wanted are commented out, commented-out items that
+ * are wanted again are uncommented, and other new items are added at the end.
+ * Returns undefined if the array is not written this way.
+ */
+function editArrayLines(lines: string[], value: TomlValue[]): string[] | undefined {
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    if (!/=\s*\[\s*(#.*)?$/.test(first) || !/^\s*\]/.test(last) || value.some(v => typeof v !== "string")) {
+        return undefined;
+    }
+
+    const wanted = new Set(value as string[]);
+    const body: string[] = [];
+    let indent: string | undefined;
+    for (const line of lines.slice(1, -1)) {
+        const item = line.match(/^(\s*)("(?:[^"\\]|\\.)*"|'[^']*')\s*,?\s*(#.*)?$/);
+        if (item) {
+            const itemValue = parseTomlValue(item[2]);
+            indent ??= item[1];
+            // Comment out unwanted items rather than dropping them, so that
+            // the list of what could be added stays in the file.
+            body.push(typeof itemValue === "string" && wanted.delete(itemValue) ? line : `${item[1]}# ${item[2]}`);
+            continue;
+        }
+        const commented = line.match(/^(\s*)#\s*("(?:[^"\\]|\\.)*"|'[^']*')\s*,?\s*$/);
+        const commentedValue = commented && parseTomlValue(commented[2]);
+        if (commented && typeof commentedValue === "string" && wanted.delete(commentedValue)) {
+            body.push(`${commented[1]}${formatTomlValue(commentedValue)},`);
+            continue;
+        }
+        if (line.trim() !== "" && !line.trim().startsWith("#")) {
+            // Several items on a line, or something else we do not understand.
+            return undefined;
+        }
+        indent ??= commented?.[1];
+        body.push(line);
+    }
+
+    indent ??= (last.match(/^\s*/)?.[0] ?? "") + "    ";
+    for (const item of wanted) {
+        body.push(`${indent}${formatTomlValue(item)},`);
+    }
+    return [first, ...body, last];
+}
+
+/** Finds the comment at the end of a line of TOML, outside any strings. */
+function findComment(text: string): string | undefined {
+    return tokenizeWithComments(text).find(token => token.startsWith("#"));
+}
+
+function isBalanced(text: string): boolean {
+    let depth = 0;
+    for (const token of tokenize(text)) {
+        if (token === "[") {
+            depth++;
+        } else if (token === "]") {
+            depth--;
+        }
+    }
+    return depth <= 0;
+}
+
+/** Splits TOML value text into strings, brackets, commas and bare words, dropping comments. */
+function tokenize(text: string): string[] {
+    return tokenizeWithComments(text).filter(token => !token.startsWith("#"));
+}
+
+function tokenizeWithComments(text: string): string[] {
+    const regex = /"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\]|\\.)*"|'[^']*'|#[^\n]*|[[\],]|[^\s[\],#]+/g;
+    return Array.from(text.matchAll(regex), match => match[0]);
+}
+
+export function parseTomlValue(text: string): TomlValue | undefined {
+    const tokens = tokenize(text);
+    let pos = 0;
+
+    function parseValue(): TomlValue | undefined {
+        const token = tokens[pos++];
+        if (token === undefined) {
+            return undefined;
+        }
+        if (token === "[") {
+            const items: TomlValue[] = [];
+            while (pos < tokens.length && tokens[pos] !== "]") {
+                if (tokens[pos] === ",") {
+                    pos++;
+                    continue;
+                }
+                const item = parseValue();
+                if (item !== undefined) {
+                    items.push(item);
+                }
+            }
+            pos++; // the closing bracket
+            return items;
+        }
+        return parseScalar(token);
+    }
+
+    return parseValue();
+}
+
+function parseScalar(token: string): TomlValue | undefined {
+    if (token.startsWith('"""') || token.startsWith("'''")) {
+        return token.slice(3, -3);
+    }
+    if (token.startsWith('"')) {
+        return token.slice(1, -1).replace(/\\(["\\nt])/g, (_, c: string) => c === "n" ? "\n" : c === "t" ? "\t" : c);
+    }
+    if (token.startsWith("'")) {
+        return token.slice(1, -1);
+    }
+    if (token === "true" || token === "false") {
+        return token === "true";
+    }
+    const num = Number(token.replace(/_/g, ""));
+    return isNaN(num) ? token : num;
+}
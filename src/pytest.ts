@@ -0,0 +1,156 @@
+// Helpers for discovering pytest tests in source files and reading pytest's
+// results. These deliberately do not depend on VS Code so that they stay easy
+// to reason about.
+
+export interface DiscoveredTest {
+    name: string,
+    /** Zero-based line of the `def` or `class`. */
+    line: number,
+    /** Test methods, if this is a test class. */
+    children?: DiscoveredTest[],
+}
+
+export function isTestFileName(fileName: string): boolean {
+    return /^(test_.*|.*_test)\.py$/.test(fileName);
+}
+
+/**
+ * Finds test functions and test classes in a Python source file, using
+ * pytest's default naming rules. This is a line-based scan rather than a real
+ * parse, but it is fast and gives us source locations for free. Tests that
+ * pytest finds some other way (e.g. `from pyfrc.tests import *`) are added
+ * when results come back.
+ */
+export function findTestsInSource(source: string): DiscoveredTest[] {
+    const tests: DiscoveredTest[] = [];
+    let currentClass: DiscoveredTest | undefined;
+
+    const lines = source.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.trim() === "" || line.trim().startsWith("#")) {
+            continue;
+        }
+
+        const indented = /^\s/.test(line);
+        if (!indented) {
+            currentClass = undefined;
+        }
+
+        const classMatch = line.match(/^class\s+(Test\w*)\s*[:(]/);
+        if (classMatch) {
+            currentClass = { name: classMatch[1], line: i, children: [] };
+            tests.push(currentClass);
+            continue;
+        }
+
+        const defMatch = line.match(/^(\s*)(?:async\s+)?def\s+(test\w*)\s*\(/);
+        if (defMatch) {
+            const test = { name: defMatch[2], line: i };
+            if (defMatch[1] === "") {
+                tests.push(test);
+            } else if (currentClass) {
+                currentClass.children?.push(test);
+            }
+        }
+    }
+
+    return tests;
+}
+
+export type PytestOutcome = "passed" | "failed" | "errored" | "skipped";
+
+export interface PytestCaseResult {
+    /** The file as reported by pytest, relative to pytest's rootdir. */
+    file?: string,
+    /** Dotted module path, plus the class name for tests in a class. */
+    classname: string,
+    /** The test name, including any parametrization (e.g. `test_foo[1]`). */
+    name: string,
+    /** Zero-based line of the test, if pytest reported one. */
+    line?: number,
+    outcome: PytestOutcome,
+    /** Duration in milliseconds. */
+    duration?: number,
+    message?: string,
+    details?: string,
+}
+
+/**
+ * Parses the JUnit XML report written by `pytest --junitxml`. Use the xunit1
+ * family (`-o junit_family=xunit1`) to get file and line information.
+ */
+export function parseJUnitXml(xml: string): PytestCaseResult[] {
+    const results: PytestCaseResult[] = [];
+
+    const caseRegex = /<testcase\b([^>]*?)(\/>|>([\s\S]*?)<\/testcase>)/g;
+    for (const caseMatch of xml.matchAll(caseRegex)) {
+        const attrs = parseXmlAttributes(caseMatch[1]);
+        const body = caseMatch[3] ?? "";
+
+        const result: PytestCaseResult = {
+            file: attrs.file,
+            classname: attrs.classname ?? "",
+            name: attrs.name ?? "",
+            line: attrs.line !== undefined ? parseInt(attrs.line, 10) : undefined,
+            outcome: "passed",
+            duration: attrs.time !== undefined ? parseFloat(attrs.time) * 1000 : undefined,
+        };
+
+        const problemMatch = body.match(/<(failure|error|skipped)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+        if (problemMatch) {
+            const problemAttrs = parseXmlAttributes(problemMatch[2]);
+            result.outcome = problemMatch[1] === "failure" ? "failed"
+                : problemMatch[1] === "error" ? "errored"
+                : "skipped";
+            result.message = problemAttrs.message;
+            result.details = problemMatch[3] !== undefined ? decodeXmlEntities(stripCData(problemMatch[3])) : undefined;
+        }
+
+        results.push(result);
+    }
+
+    return results;
+}
+
+/**
+ * Finds the last `path:line:` location in a pytest failure report that refers
+ * to the given file (e.g. `tests/test_drive.py:23: AssertionError`). Returns
+ * a zero-based line.
+ */
+export function findFailureLine(details: string, fileName: string): number | undefined {
+    let line: number | undefined;
+    for (const match of details.matchAll(/^(.+?):(\d+): /gm)) {
+        if (match[1].replace(/\\/g, "/").endsWith(fileName.replace(/\\/g, "/"))) {
+            line = parseInt(match[2], 10) - 1;
+        }
+    }
+    return line;
+}
+
+function parseXmlAttributes(str: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of str.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+    }
+    return attrs;
+}
+
+function stripCData(str: string): string {
+    return str.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+}
+
+function decodeXmlEntities(str: string): string {
+    return str.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+        switch (entity.toLowerCase()) {
+            case "lt": return "<";
+            case "gt": return ">";
+            case "amp": return "&";
+            case "quot": return "\"";
+            case "apos": return "'";
+        }
+        return entity[1].toLowerCase() === "x"
+            ? String.fromCodePoint(parseInt(entity.slice(2), 16))
+            : String.fromCodePoint(parseInt(entity.slice(1), 10));
+    });
+}
@@ -0,0 +1,72 @@
+// Checks for whether a robot can be reached before deploying to it.
+
+import * as net from "net";
+
+export const ROBOT_SSH_PORT = 22;
+export const ROBOT_USB_ADDRESS = "172.22.11.2";
+
+/**
+ * Lists the addresses a roboRIO for the given team may be found at, in the
+ * order we prefer them: the static radio address, mDNS, USB, and the names
+ * used on DHCP and field networks.
+ */
+export function getTeamRobotAddresses(team: number): string[] {
+    const te = Math.floor(team / 100);
+    const am = team % 100;
+    return [
+        `10.${te}.${am}.2`,
+        `roboRIO-${team}-FRC.local`,
+        ROBOT_USB_ADDRESS,
+        `roboRIO-${team}-FRC.lan`,
+        `roboRIO-${team}-FRC.frc-field.local`,
+    ];
+}
+
+export interface ReachabilityAttempt {
+    host: string,
+    port: number,
+    ok: boolean,
+    /** Why the attempt failed, e.g. "timed out" or "ECONNREFUSED". */
+    error?: string,
+}
+
+/**
+ * Tries to open a TCP connection to the given host and port, and closes it
+ * again right away.
+ */
+export function checkTcpReachable(host: string, port: number, timeoutMs: number): Promise<ReachabilityAttempt> {
+    return new Promise<ReachabilityAttempt>(res => {
+        const socket = net.connect({ host, port });
+        let done = false;
+        function finish(attempt: ReachabilityAttempt) {
+            if (!done) {
+                done = true;
+                socket.destroy();
+                res(attempt);
+            }
+        }
+
+        socket.setTimeout(timeoutMs);
+        socket.on("connect", () => finish({ host, port, ok: true }));
+        socket.on("timeout", () => finish({ host, port, ok: false, error: "timed out" }));
+        socket.on("error", (err: NodeJS.ErrnoException) => finish({ host, port, ok: false, error: err.code ?? err.message }));
+    });
+}
+
+export interface ReachabilityResult {
+    /** The first address (in the given order) that answered, if any. */
+    reachable?: string,
+    attempts: ReachabilityAttempt[],
+}
+
+/**
+ * Checks all addresses at once, so that the whole check takes at most one
+ * timeout, and reports the first one in order that answered.
+ */
+export async function findReachableAddress(hosts: readonly string[], port: number, timeoutMs: number): Promise<ReachabilityResult> {
+    const attempts = await Promise.all(hosts.map(host => checkTcpReachable(host, port, timeoutMs)));
+    return {
+        reachable: attempts.find(a => a.ok)?.host,
+        attempts,
+    };
+}
@@ -0,0 +1,225 @@
+// Reading the roboRIO console ("riolog"). The robot serves its console on a
+// TCP port as a stream of frames, each a 2-byte big-endian length followed by
+// a 1-byte tag and the payload: a printed line, or an error or warning with
+// where it came from.
+
+import * as net from "net";
+
+export const RIOLOG_PORT = 1741;
+
+const TAG_ERROR = 11;
+const TAG_PRINT = 12;
+
+export type RioLogLevel = "error" | "warning" | "print";
+
+export interface RioLogMessage {
+    level: RioLogLevel,
+    /** Seconds since the robot program started. */
+    timestamp: number,
+    seqNumber: number,
+    /** The printed line, or the details of an error or warning. */
+    text: string,
+    /** For errors and warnings, where they were reported. */
+    location?: string,
+    callStack?: string,
+    errorCode?: number,
+    numOccur?: number,
+}
+
+/**
+ * Creates a parser that accepts chunks of the console stream as they arrive
+ * and calls `onMessage` for each complete message. Empty (keep-alive) frames
+ * and unknown tags are skipped.
+ */
+export function createRioLogParser(onMessage: (message: RioLogMessage) => void): (chunk: Buffer) => void {
+    let buffer = Buffer.alloc(0);
+
+    return chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (buffer.length >= 2) {
+            const length = buffer.readUInt16BE(0);
+            if (buffer.length < 2 + length) {
+                break;
+            }
+            const frame = buffer.subarray(2, 2 + length);
+            buffer = buffer.subarray(2 + length);
+
+            if (frame.length > 0) {
+                const message = decodeFrame(frame);
+                if (message) {
+                    onMessage(message);
+                }
+            }
+        }
+    };
+}
+
+function decodeFrame(frame: Buffer): RioLogMessage | undefined {
+    try {
+        const tag = frame.readUInt8(0);
+        if (tag === TAG_PRINT) {
+            return {
+                level: "print",
+                timestamp: frame.readFloatBE(1),
+                seqNumber: frame.readUInt16BE(5),
+                text: frame.subarray(7).toString("utf8"),
+            };
+        }
+        if (tag === TAG_ERROR) {
+            let offset = 14;
+            function readString(): string {
+                const length = frame.readUInt16BE(offset);
+                const str = frame.subarray(offset + 2, offset + 2 + length).toString("utf8");
+                offset += 2 + length;
+                return str;
+            }
+            return {
+                level: (frame.readUInt8(13) & 1) ? "error" : "warning",
+                timestamp: frame.readFloatBE(1),
+                seqNumber: frame.readUInt16BE(5),
+                numOccur: frame.readUInt16BE(7),
+                errorCode: frame.readInt32BE(9),
+                text: readString(),
+                location: readString(),
+                callStack: readString(),
+            };
+        }
+    } catch (e) {
+        // A malformed frame; skip it rather than losing the connection.
+    }
+    return undefined;
+}
+
+export interface RioLogConnectionHandlers {
+    onMessage: (message: RioLogMessage) => void,
+    /** Called with a human-readable description of the connection state. */
+    onStatus: (status: string) => void,
+}
+
+export interface RioLogConnectionOptions {
+    port?: number,
+    /** How long to wait for each connection attempt. */
+    connectTimeoutMs?: number,
+    /** How long to wait before trying again after losing the robot. */
+    reconnectDelayMs?: number,
+    /** How often to send keep-alive frames. */
+    keepAliveMs?: number,
+}
+
+export interface RioLogConnection {
+    dispose: () => void,
+}
+
+/**
+ * Connects to the console of the first of the given hosts that answers, and
+ * keeps reconnecting (e.g. while the robot reboots) until disposed.
+ */
+export function connectRioLog(hosts: readonly string[], handlers: RioLogConnectionHandlers, opts: RioLogConnectionOptions = {}): RioLogConnection {
+    const port = opts.port ?? RIOLOG_PORT;
+    const connectTimeoutMs = opts.connectTimeoutMs ?? 2000;
+    const reconnectDelayMs = opts.reconnectDelayMs ?? 1000;
+    const keepAliveMs = opts.keepAliveMs ?? 2000;
+
+    let disposed = false;
+    let lastStatus: string | undefined;
+    let socket: net.Socket | undefined;
+    let keepAlive: NodeJS.Timeout | undefined;
+    let reconnect: NodeJS.Timeout | undefined;
+
+    // While the robot is away we retry often, so only report changes.
+    function setStatus(status: string) {
+        if (status !== lastStatus) {
+            lastStatus = status;
+            handlers.onStatus(status);
+        }
+    }
+
+    function connectAny(): Promise<[net.Socket, string] | undefined> {
+        return new Promise(res => {
+            let remaining = hosts.length;
+            let winner: net.Socket | undefined;
+            if (remaining === 0) {
+                res(undefined);
+            }
+            for (const host of hosts) {
+                const candidate = net.connect({ host, port });
+                candidate.setTimeout(connectTimeoutMs);
+                const fail = () => {
+                    candidate.destroy();
+                    if (--remaining === 0 && !winner) {
+                        res(undefined);
+                    }
+                };
+                candidate.once("timeout", fail);
+                candidate.once("error", fail);
+                candidate.once("connect", () => {
+                    if (winner || disposed) {
+                        candidate.destroy();
+                        return;
+                    }
+                    winner = candidate;
+                    candidate.removeAllListeners("timeout");
+                    candidate.removeAllListeners("error");
+                    candidate.setTimeout(0);
+                    res([candidate, host]);
+                });
+            }
+        });
+    }
+
+    async function run() {
+        setStatus(`Connecting to ${hosts.join(", ")}...`);
+        const connected = await connectAny();
+        if (disposed) {
+            connected?.[0].destroy();
+            return;
+        }
+        if (!connected) {
+            scheduleReconnect();
+            return;
+        }
+
+        const [sock, host] = connected;
+        socket = sock;
+        setStatus(`Connected to ${host}:${port}`);
+
+        const parse = createRioLogParser(handlers.onMessage);
+        sock.setKeepAlive(true, keepAliveMs);
+        sock.on("data", parse);
+        sock.on("error", () => sock.destroy());
+        sock.on("close", () => {
+            if (keepAlive) {
+                clearInterval(keepAlive);
+                keepAlive = undefined;
+            }
+            socket = undefined;
+            if (!disposed) {
+                setStatus(`Lost connection to ${host}; reconnecting...`);
+                scheduleReconnect();
+            }
+        });
+        keepAlive = setInterval(() => sock.write(Buffer.from([0, 0])), keepAliveMs);
+    }
+
+    function scheduleReconnect() {
+        reconnect = setTimeout(() => {
+            reconnect = undefined;
+            run();
+        }, reconnectDelayMs);
+    }
+
+    run();
+
+    return {
+        dispose() {
+            disposed = true;
+            if (reconnect) {
+                clearTimeout(reconnect);
+            }
+            if (keepAlive) {
+                clearInterval(keepAlive);
+            }
+            socket?.destroy();
+        },
+    };
+}
@@ -0,0 +1,44 @@
+// Finding the main robot class in a Python source file. Like test discovery,
+// this is a line-based scan rather than a real parse.
+
+/** The WPILib (and friends) base classes that a robot class derives from. */
+const ROBOT_BASE_CLASSES = [
+    "wpilib.TimedRobot",
+    "wpilib.TimesliceRobot",
+    "wpilib.IterativeRobotBase",
+    "wpilib.RobotBase",
+    "commands2.TimedCommandRobot",
+    "magicbot.MagicRobot",
+];
+
+export interface RobotClass {
+    name: string,
+    /** Zero-based line of the `class`. */
+    line: number,
+    /** The base class as written, e.g. `wpilib.TimedRobot` or `TimedRobot`. */
+    base: string,
+}
+
+/**
+ * Finds top-level classes that derive directly from a robot base class,
+ * whether it is written with its module (`wpilib.TimedRobot`) or imported
+ * (`from wpilib import TimedRobot`).
+ */
+export function findRobotClasses(source: string): RobotClass[] {
+    const baseNames = new Set([...ROBOT_BASE_CLASSES, ...ROBOT_BASE_CLASSES.map(b => b.slice(b.lastIndexOf(".") + 1))]);
+    const classes: RobotClass[] = [];
+
+    const lines = source.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(/^class\s+(\w+)\s*\(([^)]*)\)?/);
+        if (!match) {
+            continue;
+        }
+        const bases = match[2].split(",").map(b => b.trim());
+        const base = bases.find(b => baseNames.has(b));
+        if (base) {
+            classes.push({ name: match[1], line: i, base });
+        }
+    }
+    return classes;
+}
@@ -0,0 +1,74 @@
+import assert from "assert";
+import * as net from "net";
+import { describe, it } from "node:test";
+import { checkTcpReachable, findReachableAddress } from "../reachability";
+
+/** Starts a TCP server on a free local port that accepts and drops connections. */
+function listen(): Promise<net.Server> {
+    return new Promise((res, rej) => {
+        const server = net.createServer(socket => socket.destroy());
+        server.on("error", rej);
+        server.listen(0, "127.0.0.1", () => res(server));
+    });
+}
+
+/** Finds a local port that nothing is listening on. */
+async function closedPort(): Promise<number> {
+    const server = await listen();
+    const port = (server.address() as net.AddressInfo).port;
+    await new Promise(res => server.close(res));
+    return port;
+}
+
+describe("checkTcpReachable", () => {
+    it("reports a listening port as reachable", async () => {
+        const server = await listen();
+        try {
+            const port = (server.address() as net.AddressInfo).port;
+            assert.deepStrictEqual(await checkTcpReachable("127.0.0.1", port, 1000), { host: "127.0.0.1", port, ok: true });
+        } finally {
+            server.close();
+        }
+    });
+
+    it("reports a closed port as unreachable", async () => {
+        const port = await closedPort();
+        const attempt = await checkTcpReachable("127.0.0.1", port, 1000);
+        assert.strictEqual(attempt.ok, false);
+        assert.strictEqual(attempt.error, "ECONNREFUSED");
+    });
+
+    it("does not wait longer than the timeout", async () => {
+        // Whether this address hangs, fails right away or (behind some
+        // proxies) even answers depends on the network, but it never takes
+        // much longer than the timeout.
+        const started = Date.now();
+        const attempt = await checkTcpReachable("10.255.255.1", 22, 200);
+        assert.ok(Date.now() - started < 1000, "took much longer than the timeout");
+        if (!attempt.ok) {
+            assert.ok(attempt.error);
+        }
+    });
+});
+
+describe("findReachableAddress", () => {
+    it("picks the first address in order that answered", async () => {
+        const server = await listen();
+        try {
+            const port = (server.address() as net.AddressInfo).port;
+            // The server only listens on 127.0.0.1.
+            const result = await findReachableAddress(["127.0.0.2", "127.0.0.1"], port, 1000);
+            assert.strictEqual(result.reachable, "127.0.0.1");
+            assert.deepStrictEqual(result.attempts.map(a => a.ok), [false, true]);
+        } finally {
+            server.close();
+        }
+    });
+
+    it("finds nothing when no address answers", async () => {
+        const port = await closedPort();
+        const result = await findReachableAddress(["127.0.0.1"], port, 1000);
+        assert.strictEqual(result.reachable, undefined);
+        assert.deepStrictEqual(result.attempts.map(a => a.ok), [false]);
+    });
+});
@@ -0,0 +1,106 @@
+import assert from "assert";
+import * as net from "net";
+import { describe, it } from "node:test";
+import { connectRioLog, createRioLogParser, RioLogMessage } from "../riolog";
+
+/** Frames a payload as the robot does: a 2-byte big-endian length, then the payload. */
+function frame(payload: Buffer): Buffer {
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(payload.length, 0);
+    return Buffer.concat([length, payload]);
+}
+
+function printFrame(seqNumber: number, text: string): Buffer {
+    const header = Buffer.alloc(7);
+    header.writeUInt8(12, 0);
+    header.writeFloatBE(1.5, 1);
+    header.writeUInt16BE(seqNumber, 5);
+    return frame(Buffer.concat([header, Buffer.from(text, "utf8")]));
+}
+
+function errorFrame(isError: boolean, text: string, location: string, callStack: string): Buffer {
+    const header = Buffer.alloc(14);
+    header.writeUInt8(11, 0);
+    header.writeFloatBE(2.5, 1);
+    header.writeUInt16BE(7, 5);
+    header.writeUInt16BE(3, 7);
+    header.writeInt32BE(-44, 9);
+    header.writeUInt8(isError ? 1 : 0, 13);
+    const strings = [text, location, callStack].map(str => frame(Buffer.from(str, "utf8")));
+    return frame(Buffer.concat([header, ...strings]));
+}
+
+describe("createRioLogParser", () => {
+    it("decodes messages split anywhere across chunks", () => {
+        const stream = Buffer.concat([
+            printFrame(1, "hello"),
+            frame(Buffer.alloc(0)),
+            errorFrame(true, "Bad thing", "robot.py:12", "Traceback..."),
+            frame(Buffer.from([99, 1, 2, 3])),
+            errorFrame(false, "Loop overrun", "", ""),
+        ]);
+        for (let size = 1; size <= stream.length; size++) {
+            const messages: RioLogMessage[] = [];
+            const parse = createRioLogParser(message => messages.push(message));
+            for (let i = 0; i < stream.length; i += size) {
+                parse(stream.subarray(i, i + size));
+            }
+            assert.deepStrictEqual(messages, [
+                { level: "print", timestamp: 1.5, seqNumber: 1, text: "hello" },
+                {
+                    level: "error", timestamp: 2.5, seqNumber: 7, numOccur: 3, errorCode: -44,
+                    text: "Bad thing", location: "robot.py:12", callStack: "Traceback...",
+                },
+                {
+                    level: "warning", timestamp: 2.5, seqNumber: 7, numOccur: 3, errorCode: -44,
+                    text: "Loop overrun", location: "", callStack: "",
+                },
+            ], `with chunks of ${size} bytes`);
+        }
+    });
+});
+
+describe("connectRioLog", () => {
+    it("reads messages from a stand-in console and reconnects after losing it", async () => {
+        let connections = 0;
+        const server = net.createServer(socket => {
+            connections++;
+            if (connections === 1) {
+                // Send a message in two pieces, then drop the connection.
+                const data = printFrame(1, "first");
+                socket.write(data.subarray(0, 3));
+                setTimeout(() => socket.end(data.subarray(3)), 20);
+            } else {
+                socket.write(printFrame(2, "second"));
+            }
+        });
+        await new Promise<void>(res => server.listen(0, "127.0.0.1", res));
+        const port = (server.address() as net.AddressInfo).port;
+
+        const texts: string[] = [];
+        const statuses: string[] = [];
+        let connection: { dispose: () => void } | undefined;
+        try {
+            await new Promise<void>((res, rej) => {
+                const timer = setTimeout(() => rej(new Error(`Timed out; got ${JSON.stringify(texts)}`)), 5000);
+                connection = connectRioLog(["127.0.0.1"], {
+                    onMessage: message => {
+                        texts.push(message.text);
+                        if (texts.length === 2) {
+                            clearTimeout(timer);
+                            res();
+                        }
+                    },
+                    onStatus: status => statuses.push(status),
+                }, { port, reconnectDelayMs: 20, connectTimeoutMs: 1000 });
+            });
+        } finally {
+            connection?.dispose();
+            server.close();
+        }
+
+        assert.deepStrictEqual(texts, ["first", "second"]);
+        assert.strictEqual(connections, 2);
+        assert.ok(statuses.some(status => status.startsWith("Lost connection to 127.0.0.1")), statuses.join("\n"));
+    });
+});
@@ -0,0 +1,5 @@
+// Runs the tests of the modules that only depend on Node, with Node's own test
+// runner. The rest of the extension needs VS Code itself to run.
+
+import "./reachability.test";
+import "./riolog.test";
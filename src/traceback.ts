@@ -0,0 +1,104 @@
+// Parsing of Python tracebacks and pytest failure reports out of command
+// output, so that they can be shown as diagnostics on the right lines.
+
+export interface StackFrame {
+    /** The file path exactly as printed, which may be relative. */
+    file: string,
+    /** One-based line number. */
+    line: number,
+    /** The function name, if the output included one. */
+    func?: string,
+}
+
+export interface ParsedError {
+    /** E.g. `ZeroDivisionError: division by zero`. */
+    message: string,
+    /** Outermost frame first, like Python prints them. */
+    frames: StackFrame[],
+}
+
+const TRACEBACK_START = /^\s*Traceback \(most recent call last\):\s*$/;
+const TRACEBACK_FRAME = /^\s*File "(.+)", line (\d+)(?:, in (.+))?\s*$/;
+const PYTEST_SECTION = /^_{3,} (.+?) _{3,}\s*$/;
+const PYTEST_LOCATION = /^(\S.*?\.py):(\d+): (.*)$/;
+const PYTEST_ERROR_LINE = /^E\s{2,}(.*)$/;
+
+/**
+ * Finds all Python tracebacks and pytest long-format failure reports in the
+ * given output. Chained exceptions ("During handling of the above exception")
+ * are reported as separate errors.
+ */
+export function parsePythonErrors(output: string): ParsedError[] {
+    const lines = output.split(/\r?\n/);
+    const errors: ParsedError[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        if (TRACEBACK_START.test(lines[i])) {
+            i = parseTraceback(lines, i + 1, errors);
+        } else if (PYTEST_SECTION.test(lines[i]) && !/ (short test summary info|warnings summary|FAILURES|ERRORS) /.test(lines[i])) {
+            i = parsePytestSection(lines, i + 1, errors);
+        } else {
+            i++;
+        }
+    }
+
+    return errors;
+}
+
+function parseTraceback(lines: string[], start: number, errors: ParsedError[]): number {
+    const frames: StackFrame[] = [];
+    let i = start;
+    for (; i < lines.length; i++) {
+        const frameMatch = lines[i].match(TRACEBACK_FRAME);
+        if (frameMatch) {
+            frames.push({ file: frameMatch[1], line: parseInt(frameMatch[2], 10), func: frameMatch[3] });
+            continue;
+        }
+        if (/^\s/.test(lines[i]) || lines[i] === "") {
+            // Source lines, `^^^^` markers, and the like.
+            continue;
+        }
+
+        // The first unindented line is the exception itself. Exception
+        // messages may continue on further unindented lines, but we only
+        // keep the first.
+        if (frames.length > 0) {
+            errors.push({ message: lines[i].trim(), frames });
+        }
+        return i + 1;
+    }
+
+    return i;
+}
+
+function parsePytestSection(lines: string[], start: number, errors: ParsedError[]): number {
+    const frames: StackFrame[] = [];
+    const messageLines: string[] = [];
+    let exceptionType: string | undefined;
+
+    let i = start;
+    for (; i < lines.length; i++) {
+        if (PYTEST_SECTION.test(lines[i]) || /^={3,}/.test(lines[i])) {
+            break;
+        }
+
+        const errorMatch = lines[i].match(PYTEST_ERROR_LINE);
+        if (errorMatch) {
+            messageLines.push(errorMatch[1].trim());
+            continue;
+        }
+
+        const locationMatch = lines[i].match(PYTEST_LOCATION);
+        if (locationMatch) {
+            frames.push({ file: locationMatch[1], line: parseInt(locationMatch[2], 10) });
+            exceptionType = locationMatch[3].trim() || exceptionType;
+        }
+    }
+
+    if (frames.length > 0) {
+        const message = messageLines.filter(l => l !== "").slice(0, 1).join("") || exceptionType || "Test failed";
+        errors.push({ message, frames });
+    }
+    return i;
+}
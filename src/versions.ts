@@ -0,0 +1,56 @@
+// Comparing version numbers like `2025.3.2` or `3.12.1`. This only understands
+// the dotted release numbers and treats anything after them (`b1`, `rc2`,
+// `.dev0`) as a pre-release, which is enough for RobotPy and Python versions.
+
+export interface ParsedVersion {
+    release: number[],
+    /** Whether there was anything after the release numbers. */
+    isPrerelease: boolean,
+}
+
+export function parseVersion(version: string): ParsedVersion | undefined {
+    const match = version.trim().match(/^v?(\d+(?:\.\d+)*)(.*)$/);
+    if (!match) {
+        return undefined;
+    }
+    return {
+        release: match[1].split(".").map(n => parseInt(n, 10)),
+        isPrerelease: match[2].replace(/^\+.*$/, "") !== "",
+    };
+}
+
+/**
+ * Compares two versions, returning a negative number if `a` is older, zero if
+ * they are the same, and a positive number if `a` is newer. Missing parts
+ * count as zero, so `3.12` equals `3.12.0`. Versions that cannot be parsed are
+ * older than any that can.
+ */
+export function compareVersions(a: string, b: string): number {
+    const va = parseVersion(a);
+    const vb = parseVersion(b);
+    if (!va || !vb) {
+        return (va ? 1 : 0) - (vb ? 1 : 0);
+    }
+
+    const length = Math.max(va.release.length, vb.release.length);
+    for (let i = 0; i < length; i++) {
+        const diff = (va.release[i] ?? 0) - (vb.release[i] ?? 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    // A pre-release comes before the release itself.
+    return (va.isPrerelease ? 0 : 1) - (vb.isPrerelease ? 0 : 1);
+}
+
+/** Picks the newest version that is not a pre-release, e.g. from PyPI's list of releases. */
+export function findLatestRelease(versions: Iterable<string>): string | undefined {
+    let latest: string | undefined;
+    for (const version of versions) {
+        const parsed = parseVersion(version);
+        if (parsed && !parsed.isPrerelease && (latest === undefined || compareVersions(version, latest) > 0)) {
+            latest = version;
+        }
+    }
+    return latest;
+}